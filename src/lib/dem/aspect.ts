@@ -0,0 +1,122 @@
+/**
+ * Aspect (slope direction) calculation.
+ *
+ * Computes the compass direction each cell faces, i.e. the direction of
+ * steepest descent, from the same Sobel gradient used for hillshading.
+ * Useful for snow retention and sun exposure maps.
+ *
+ * @see https://pro.arcgis.com/en/pro-app/latest/tool-reference/spatial-analyst/how-aspect-works.htm
+ */
+
+import { type Grid, createGrid } from './grid';
+import { type Gradient, getGradientScale, sobelGradient } from './gradient';
+import { type NoDataOptions, createMaskedGrid } from './nodata';
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+/** Aspect value assigned to cells too flat to face any direction */
+export const FLAT_ASPECT = -1;
+
+/** Compass sectors in clockwise order, starting at North */
+export const ASPECT_SECTORS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'] as const;
+
+/** Sector name for cells without a defined aspect */
+export const FLAT_SECTOR = 'flat';
+
+/**
+ * A compass sector, or 'flat' for cells without a defined aspect.
+ */
+export type AspectSector = (typeof ASPECT_SECTORS)[number] | typeof FLAT_SECTOR;
+
+/**
+ * Aspect calculation options.
+ */
+export interface AspectOptions extends NoDataOptions {
+  /** Slope angle in degrees below which a cell is considered flat. Default: 1 */
+  flatSlope?: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Calculates aspect for elevation data.
+ *
+ * @param data Elevation values in row-major order (meters)
+ * @param width Grid width
+ * @param height Grid height
+ * @param cellSize Ground resolution in meters per cell
+ * @param options Flat terrain and NoData options
+ * @returns Grid of compass directions in degrees (0-360, 0 = North, 90 = East),
+ *   or {@link FLAT_ASPECT} for flat cells. When skipping NoData, skipped
+ *   cells are NaN and marked in the result's mask.
+ *
+ * @example
+ * const resolution = getGroundResolution(zoom, latitude);
+ * const directions = aspect(elevation, 257, 257, resolution);
+ */
+export function aspect(
+  data: Float64Array | number[],
+  width: number,
+  height: number,
+  cellSize: number,
+  options?: AspectOptions
+): Grid {
+  const grid = createMaskedGrid(data, width, height, options);
+  const { flatSlope = 1 } = options ?? {};
+
+  if (cellSize <= 0) {
+    throw new Error('Cell size must be positive');
+  }
+  if (flatSlope < 0 || flatSlope >= 90) {
+    throw new Error('Flat slope must be between 0 and 90 degrees');
+  }
+
+  const result = new Float64Array(width * height);
+  const gradientScale = getGradientScale(cellSize);
+  const gradient: Gradient = { dzdx: 0, dzdy: 0 };
+
+  // Compare squared gradient magnitudes to avoid a sqrt/atan per cell
+  const flatGradient = Math.tan(flatSlope / RAD_TO_DEG);
+  const flatGradientSq = Math.max(flatGradient * flatGradient, 1e-10);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (grid.noData?.[y * width + x]) {
+        result[y * width + x] = NaN;
+        continue;
+      }
+
+      const { dzdx, dzdy } = sobelGradient(grid, x, y, gradientScale, gradient);
+
+      if (dzdx * dzdx + dzdy * dzdy < flatGradientSq) {
+        result[y * width + x] = FLAT_ASPECT;
+        continue;
+      }
+
+      // Downslope vector is (-dzdx, -dzdy) with +y pointing south,
+      // so its east component is -dzdx and its north component is dzdy
+      const degrees = Math.atan2(-dzdx, dzdy) * RAD_TO_DEG;
+      result[y * width + x] = degrees < 0 ? degrees + 360 : degrees;
+    }
+  }
+
+  return createGrid(result, width, height, grid.noData);
+}
+
+/**
+ * Classifies an aspect value into one of 8 compass sectors.
+ *
+ * Each sector spans 45° centered on its direction (N covers 337.5°-22.5°).
+ *
+ * @example
+ * aspectSector(10);          // 'N'
+ * aspectSector(FLAT_ASPECT); // 'flat'
+ */
+export function aspectSector(value: number): AspectSector {
+  if (value < 0) {
+    return FLAT_SECTOR;
+  }
+  return ASPECT_SECTORS[Math.round(value / 45) % ASPECT_SECTORS.length];
+}
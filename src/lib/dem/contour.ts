@@ -11,11 +11,19 @@ import type { Feature, LineString, Polygon } from 'geojson';
 import { lineString, polygon } from '@turf/helpers';
 
 import { type Grid, createGrid, gridGetAt } from './grid';
+import { type NoDataOptions, createMaskedGrid } from './nodata';
 
 type Coordinate = [number, number];
 
 const EPSILON = 1e-10;
 
+/**
+ * Value standing in for skipped NoData cells when tracing polygons: below
+ * every level, so polygons close along the border of voids. Finite, so edge
+ * interpolation places the border at the valid cell.
+ */
+const VOID_VALUE = -Number.MAX_VALUE;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Public API
 // ─────────────────────────────────────────────────────────────────────────────
@@ -29,6 +37,7 @@ const EPSILON = 1e-10;
  * @param width Grid width
  * @param height Grid height
  * @param levels Single level or array of levels to trace
+ * @param options NoData options; skipped cells break lines at void borders
  * @returns LineString features with `{ level }` properties
  *
  * @example
@@ -38,9 +47,10 @@ export function traceLines(
   data: Float64Array | number[],
   width: number,
   height: number,
-  levels: number | number[]
+  levels: number | number[],
+  options?: NoDataOptions
 ): Feature<LineString>[] {
-  const grid = createGrid(data, width, height);
+  const grid = createMaskedGrid(data, width, height, options);
   const levelArray = Array.isArray(levels) ? levels : [levels];
 
   const features: Feature<LineString>[] = [];
@@ -64,6 +74,7 @@ export function traceLines(
  * @param width Grid width
  * @param height Grid height
  * @param levels Single level or array of levels to trace
+ * @param options NoData options; skipped cells are left out of every polygon
  * @returns Polygon features with `{ level }` properties
  *
  * @example
@@ -73,9 +84,10 @@ export function tracePolygons(
   data: Float64Array | number[],
   width: number,
   height: number,
-  levels: number | number[]
+  levels: number | number[],
+  options?: NoDataOptions
 ): Feature<Polygon>[] {
-  const grid = createGrid(data, width, height);
+  const grid = fillVoids(createMaskedGrid(data, width, height, options));
   const levelArray = Array.isArray(levels) ? levels : [levels];
 
   const features: Feature<Polygon>[] = [];
@@ -91,6 +103,21 @@ export function tracePolygons(
 // Marching Squares Implementation
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Replaces skipped NoData cells with {@link VOID_VALUE} for polygon tracing.
+ */
+function fillVoids(grid: Grid): Grid {
+  if (!grid.noData) {
+    return grid;
+  }
+
+  const data = Float64Array.from(grid.data);
+  for (let i = 0; i < data.length; i++) {
+    if (grid.noData[i]) data[i] = VOID_VALUE;
+  }
+  return createGrid(data, grid.width, grid.height);
+}
+
 /**
  * Collects line segments for a level using Marching Squares.
  *
@@ -99,9 +126,15 @@ export function tracePolygons(
  */
 function collectSegments(grid: Grid, level: number, forPolygons: boolean): Coordinate[][] {
   const segments: Coordinate[][] = [];
+  const { noData, width } = grid;
 
   for (let y = 0; y < grid.height - 1; y++) {
-    for (let x = 0; x < grid.width - 1; x++) {
+    for (let x = 0; x < width - 1; x++) {
+      // Lines don't cross cells with a NoData corner
+      const i = y * width + x;
+      if (noData && (noData[i] || noData[i + 1] || noData[i + width] || noData[i + width + 1])) {
+        continue;
+      }
       segments.push(...processCellMarching(grid, level, x, y, forPolygons));
     }
   }
@@ -20,6 +20,11 @@ const TERRARIUM_OFFSET = 32768.0;
  */
 export type TerrainEncoding = 'mapbox' | 'terrarium';
 
+/**
+ * Converts the RGB channels of one pixel to elevation in meters.
+ */
+export type ElevationDecoder = (r: number, g: number, b: number) => number;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Public API
 // ─────────────────────────────────────────────────────────────────────────────
@@ -41,7 +46,7 @@ export function decodeElevation(
 ): Grid {
   const { width, height, data } = imageData;
   const result = new Float64Array(width * height);
-  const decode = encoding === 'mapbox' ? decodeMapbox : decodeTerrarium;
+  const decode = getElevationDecoder(encoding);
 
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
@@ -53,6 +58,25 @@ export function decodeElevation(
   return { data: result, width, height };
 }
 
+/**
+ * Returns the per-pixel decoder for an encoding.
+ *
+ * @example
+ * const decode = getElevationDecoder('terrarium');
+ * const elevation = decode(r, g, b);
+ */
+export function getElevationDecoder(encoding: TerrainEncoding): ElevationDecoder {
+  return encoding === 'mapbox' ? decodeMapbox : decodeTerrarium;
+}
+
+/**
+ * Checks whether a terrain-rgb pixel is a NoData sentinel: fully transparent,
+ * or black (the lowest encodable elevation, -32768 m in Terrarium).
+ */
+export function isNoDataPixel(r: number, g: number, b: number, a: number): boolean {
+  return a === 0 || (r === 0 && g === 0 && b === 0);
+}
+
 /**
  * Encodes elevation values to terrain-rgb ImageData.
  *
@@ -105,7 +129,8 @@ export function clampGrid(grid: Grid, min: number, max: number): Grid {
 // Formula: elevation = (r * 256² + g * 256 + b) / 10 - 10000
 // ─────────────────────────────────────────────────────────────────────────────
 
-function decodeMapbox(r: number, g: number, b: number): number {
+/** Decodes one MapBox terrain-rgb pixel to elevation in meters */
+export function decodeMapbox(r: number, g: number, b: number): number {
   return (r * 256 * 256 + g * 256 + b) / 10.0 - MAPBOX_OFFSET;
 }
 
@@ -119,7 +144,8 @@ function encodeMapbox(elevation: number): [number, number, number] {
 // Formula: elevation = (r * 256 + g + b/256) - 32768
 // ─────────────────────────────────────────────────────────────────────────────
 
-function decodeTerrarium(r: number, g: number, b: number): number {
+/** Decodes one Terrarium pixel to elevation in meters */
+export function decodeTerrarium(r: number, g: number, b: number): number {
   return r * 256.0 + g + b / 256.0 - TERRARIUM_OFFSET;
 }
 
@@ -0,0 +1,102 @@
+/**
+ * Surface gradient estimation using the Sobel operator.
+ *
+ * Shared by the terrain derivatives (hillshade, slope) so that every
+ * product sees the same surface normal for a given cell.
+ *
+ * @see https://en.wikipedia.org/wiki/Sobel_operator
+ */
+
+import { type Grid, gridGet } from './grid';
+
+/**
+ * Elevation gradient at a cell, in elevation units per ground unit.
+ *
+ * Axes follow the grid: +x is east (increasing column), +y is south
+ * (increasing row).
+ */
+export interface Gradient {
+  dzdx: number;
+  dzdy: number;
+}
+
+/**
+ * Computes the pre-scale factor for Sobel gradients (1 / 8*cellSize).
+ */
+export function getGradientScale(cellSize: number): number {
+  return 1 / (8 * cellSize);
+}
+
+/**
+ * Computes the Sobel gradient of a cell.
+ *
+ * Samples the 3x3 neighborhood (clamping at boundaries) and writes the
+ * result into `out` to avoid allocating in per-pixel loops. NoData neighbors
+ * take the center cell's value, so voids don't tilt the surface around them.
+ *
+ * @param grid Elevation grid
+ * @param x X coordinate (column)
+ * @param y Y coordinate (row)
+ * @param gradientScale Scale factor from {@link getGradientScale}
+ * @param out Gradient object to write into
+ * @returns The `out` object
+ */
+export function sobelGradient(
+  grid: Grid,
+  x: number,
+  y: number,
+  gradientScale: number,
+  out: Gradient
+): Gradient {
+  if (grid.noData) {
+    return sobelGradientMasked(grid, x, y, gradientScale, out);
+  }
+
+  const a = gridGet(grid, x - 1, y - 1);
+  const b = gridGet(grid, x, y - 1);
+  const c = gridGet(grid, x + 1, y - 1);
+  const d = gridGet(grid, x - 1, y);
+  const f = gridGet(grid, x + 1, y);
+  const g = gridGet(grid, x - 1, y + 1);
+  const h = gridGet(grid, x, y + 1);
+  const i = gridGet(grid, x + 1, y + 1);
+
+  out.dzdx = (c + 2 * f + i - (a + 2 * d + g)) * gradientScale;
+  out.dzdy = (g + 2 * h + i - (a + 2 * b + c)) * gradientScale;
+  return out;
+}
+
+/**
+ * Sobel gradient of a cell in a grid with a NoData mask.
+ */
+function sobelGradientMasked(
+  grid: Grid,
+  x: number,
+  y: number,
+  gradientScale: number,
+  out: Gradient
+): Gradient {
+  const e = gridGet(grid, x, y);
+  const a = gridGetValid(grid, x - 1, y - 1, e);
+  const b = gridGetValid(grid, x, y - 1, e);
+  const c = gridGetValid(grid, x + 1, y - 1, e);
+  const d = gridGetValid(grid, x - 1, y, e);
+  const f = gridGetValid(grid, x + 1, y, e);
+  const g = gridGetValid(grid, x - 1, y + 1, e);
+  const h = gridGetValid(grid, x, y + 1, e);
+  const i = gridGetValid(grid, x + 1, y + 1, e);
+
+  out.dzdx = (c + 2 * f + i - (a + 2 * d + g)) * gradientScale;
+  out.dzdy = (g + 2 * h + i - (a + 2 * b + c)) * gradientScale;
+  return out;
+}
+
+/**
+ * Gets a value like {@link gridGet}, or `fallback` for NoData cells.
+ */
+function gridGetValid(grid: Grid, x: number, y: number, fallback: number): number {
+  const clampedX = Math.max(0, Math.min(grid.width - 1, x));
+  const clampedY = Math.max(0, Math.min(grid.height - 1, y));
+  const i = clampedY * grid.width + clampedX;
+  return grid.noData![i] ? fallback : grid.data[i];
+}
@@ -13,6 +13,11 @@ export interface Grid {
   readonly data: Float64Array;
   readonly width: number;
   readonly height: number;
+  /**
+   * NoData mask in row-major order: 1 where the cell has no value (its data
+   * is NaN). Absent when every cell has a value.
+   */
+  readonly noData?: Uint8Array;
 }
 
 /**
@@ -21,13 +26,15 @@ export interface Grid {
  * @param data Grid values as Float64Array or number array
  * @param width Grid width in cells
  * @param height Grid height in cells
+ * @param noData Optional NoData mask (1 = no value)
  * @returns Validated Grid instance
  * @throws Error if data is null/empty, dimensions are non-positive, or length doesn't match
  */
 export function createGrid(
   data: Float64Array | number[],
   width: number,
-  height: number
+  height: number,
+  noData?: Uint8Array
 ): Grid {
   if (!data || data.length === 0) {
     throw new Error('Grid data cannot be null or empty');
@@ -41,8 +48,14 @@ export function createGrid(
     );
   }
 
+  if (noData && noData.length !== data.length) {
+    throw new Error(
+      `NoData mask length (${noData.length}) does not match grid data length (${data.length})`
+    );
+  }
+
   const floatData = data instanceof Float64Array ? data : Float64Array.from(data);
-  return { data: floatData, width, height };
+  return noData ? { data: floatData, width, height, noData } : { data: floatData, width, height };
 }
 
 /**
@@ -59,6 +72,33 @@ export function gridGet(grid: Grid, x: number, y: number): number {
   return grid.data[clampedY * grid.width + clampedX];
 }
 
+/**
+ * Samples the grid at fractional coordinates using bilinear interpolation.
+ *
+ * Cell (i, j) is centered at (i, j); coordinates beyond the outer cell
+ * centers are clamped to the edge.
+ *
+ * @param grid Source grid
+ * @param x X coordinate in cells (column, may be fractional)
+ * @param y Y coordinate in cells (row, may be fractional)
+ * @returns Interpolated value
+ */
+export function gridSampleBilinear(grid: Grid, x: number, y: number): number {
+  const cx = Math.max(0, Math.min(grid.width - 1, x));
+  const cy = Math.max(0, Math.min(grid.height - 1, y));
+
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(x0 + 1, grid.width - 1);
+  const y1 = Math.min(y0 + 1, grid.height - 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+
+  const top = grid.data[y0 * grid.width + x0] * (1 - fx) + grid.data[y0 * grid.width + x1] * fx;
+  const bottom = grid.data[y1 * grid.width + x0] * (1 - fx) + grid.data[y1 * grid.width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
 /**
  * Gets a value at a linear index.
  *
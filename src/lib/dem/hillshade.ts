@@ -6,9 +6,12 @@
  * values (0-255) suitable for raster or vector rendering.
  *
  * @see https://en.wikipedia.org/wiki/Hillshading
+ * @see https://gdal.org/programs/gdaldem.html#cmdoption-multidirectional
  */
 
-import { type Grid, createGrid, gridGet } from './grid';
+import { type Grid, createGrid } from './grid';
+import { type Gradient, getGradientScale, sobelGradient } from './gradient';
+import { type NoDataOptions, createMaskedGrid } from './nodata';
 import { WorkersImageData } from './image-data';
 
 /** Earth's radius in meters (WGS84 semi-major axis) */
@@ -17,11 +20,33 @@ const EARTH_RADIUS = 6378137;
 /**
  * Hillshade calculation options.
  */
-export interface HillshadeOptions {
+export interface HillshadeOptions extends NoDataOptions {
   /** Sun altitude angle in degrees (0-90, where 90 is directly overhead). Default: 45 */
   altitude?: number;
   /** Sun azimuth angle in degrees (0-360, where 0/360 is North, 90 is East). Default: 315 */
   azimuth?: number;
+  /**
+   * Blend light from several azimuths instead of a single sun, like GDAL's
+   * `-multidirectional`. Each cell weights every light by how squarely it
+   * hits the slope, so ridges parallel to any one light stay visible.
+   * `azimuth` is ignored when set. Default: false
+   */
+  multidirectional?: boolean;
+}
+
+/**
+ * Light azimuths blended in multi-directional mode (degrees).
+ * Spaced 45° apart around the classic 315° light, matching GDAL.
+ */
+export const MULTIDIRECTIONAL_AZIMUTHS = [225, 270, 315, 360];
+
+/** A light source as a unit vector, with its unit horizontal direction */
+interface Light {
+  sunX: number;
+  sunY: number;
+  sunZ: number;
+  dirX: number;
+  dirY: number;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -35,8 +60,9 @@ export interface HillshadeOptions {
  * @param width Grid width
  * @param height Grid height
  * @param cellSize Ground resolution in meters per cell
- * @param options Sun position options
- * @returns Grid of hillshade values (0-255)
+ * @param options Sun position and NoData options
+ * @returns Grid of hillshade values (0-255). When skipping NoData, skipped
+ *   cells are NaN and marked in the result's mask.
  *
  * @example
  * const resolution = getResolution(zoom);
@@ -49,49 +75,43 @@ export function hillshade(
   cellSize: number,
   options?: HillshadeOptions
 ): Grid {
-  const grid = createGrid(data, width, height);
-  const { altitude = 45, azimuth = 315 } = options ?? {};
+  const grid = createMaskedGrid(data, width, height, options);
+  const { altitude = 45, azimuth = 315, multidirectional = false } = options ?? {};
 
   validateSunPosition(altitude, azimuth);
 
   const result = new Float64Array(width * height);
 
-  // Convert sun angles from geographic to math convention
-  // Geographic: azimuth 0° = North, clockwise; altitude from horizon
-  // Math: 0° = East, counter-clockwise; zenith from vertical
-  const azimuthRad = ((360 - azimuth + 90) * Math.PI) / 180;
-  const zenithRad = ((90 - altitude) * Math.PI) / 180;
-
-  // Pre-compute sun direction vector for dot product optimization
-  const cosZenith = Math.cos(zenithRad);
-  const sinZenith = Math.sin(zenithRad);
-  const sunX = sinZenith * Math.cos(azimuthRad);
-  const sunY = sinZenith * Math.sin(azimuthRad);
-  const sunZ = cosZenith;
+  // Pre-compute sun direction vectors for dot product optimization
+  const lights = multidirectional
+    ? MULTIDIRECTIONAL_AZIMUTHS.map((a) => createLight(altitude, a))
+    : [createLight(altitude, azimuth)];
+  const { sunX, sunY, sunZ } = lights[0];
 
   // Pre-compute gradient scale factor (1 / 8*cellSize)
-  const gradientScale = 1 / (8 * cellSize);
+  const gradientScale = getGradientScale(cellSize);
+
+  // Flat terrain illumination (slope = 0), identical for every light
+  const flatIllumination = 255 * sunZ;
 
-  // Flat terrain illumination (slope = 0)
-  const flatIllumination = 255 * cosZenith;
+  const gradient: Gradient = { dzdx: 0, dzdy: 0 };
 
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      const value = computePixelHillshadeFast(
-        grid,
-        x,
-        y,
-        gradientScale,
-        sunX,
-        sunY,
-        sunZ,
-        flatIllumination
-      );
+      if (grid.noData?.[y * width + x]) {
+        result[y * width + x] = NaN;
+        continue;
+      }
+
+      const { dzdx, dzdy } = sobelGradient(grid, x, y, gradientScale, gradient);
+      const value = multidirectional
+        ? computePixelHillshadeBlended(dzdx, dzdy, lights, flatIllumination)
+        : computePixelHillshadeFast(dzdx, dzdy, sunX, sunY, sunZ, flatIllumination);
       result[y * width + x] = value;
     }
   }
 
-  return { data: result, width, height };
+  return createGrid(result, width, height, grid.noData);
 }
 
 /**
@@ -130,6 +150,29 @@ export function getResolution(zoom: number, tileSize: number = 256): number {
   return (2 * Math.PI * EARTH_RADIUS) / (tileSize * Math.pow(2, zoom));
 }
 
+/**
+ * Calculates ground resolution for a web Mercator zoom level at a latitude.
+ *
+ * Mercator stretches the map by 1/cos(latitude), so a pixel covers less
+ * ground away from the equator. Use this when the gradient magnitude must be
+ * physically meaningful (e.g. slope angles), not just visually consistent.
+ *
+ * @param zoom Zoom level (0-22)
+ * @param latitude Latitude in degrees
+ * @param tileSize Tile size in pixels (default: 256)
+ * @returns Meters per pixel at the given latitude
+ *
+ * @example
+ * const resolution = getGroundResolution(14, 46.5); // ~6.57 m/px
+ */
+export function getGroundResolution(
+  zoom: number,
+  latitude: number,
+  tileSize: number = 256
+): number {
+  return getResolution(zoom, tileSize) * Math.cos((latitude * Math.PI) / 180);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Hillshade Computation (Optimized)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -149,29 +192,13 @@ const FLAT_THRESHOLD_SQ = 1e-10;
  * This avoids atan, atan2, and multiple sin/cos calls per pixel.
  */
 function computePixelHillshadeFast(
-  grid: Grid,
-  x: number,
-  y: number,
-  gradientScale: number,
+  dzdx: number,
+  dzdy: number,
   sunX: number,
   sunY: number,
   sunZ: number,
   flatIllumination: number
 ): number {
-  // Sample 3x3 neighborhood (with clamping at boundaries)
-  const a = gridGet(grid, x - 1, y - 1);
-  const b = gridGet(grid, x, y - 1);
-  const c = gridGet(grid, x + 1, y - 1);
-  const d = gridGet(grid, x - 1, y);
-  const f = gridGet(grid, x + 1, y);
-  const g = gridGet(grid, x - 1, y + 1);
-  const h = gridGet(grid, x, y + 1);
-  const i = gridGet(grid, x + 1, y + 1);
-
-  // Sobel gradients (pre-scaled)
-  const dzdx = (c + 2 * f + i - (a + 2 * d + g)) * gradientScale;
-  const dzdy = (g + 2 * h + i - (a + 2 * b + c)) * gradientScale;
-
   // Fast path for flat terrain (very common case)
   const gradMagSq = dzdx * dzdx + dzdy * dzdy;
   if (gradMagSq < FLAT_THRESHOLD_SQ) {
@@ -191,7 +218,74 @@ function computePixelHillshadeFast(
   return illumination < 0 ? 0 : illumination > 255 ? 255 : illumination;
 }
 
-function validateSunPosition(altitude: number, azimuth: number): void {
+/**
+ * Computes hillshade as a weighted blend of several lights.
+ *
+ * Each light is weighted by cos² of the angle between its horizontal
+ * direction and the gradient direction: a light shining straight up or down
+ * the slope reveals it best, while a light running along it washes it out.
+ * For lights spaced 45° apart the weights sum to half the light count.
+ */
+function computePixelHillshadeBlended(
+  dzdx: number,
+  dzdy: number,
+  lights: Light[],
+  flatIllumination: number
+): number {
+  const gradMagSq = dzdx * dzdx + dzdy * dzdy;
+  if (gradMagSq < FLAT_THRESHOLD_SQ) {
+    return flatIllumination;
+  }
+
+  let weighted = 0;
+  let totalWeight = 0;
+
+  for (const light of lights) {
+    const alignment = dzdx * light.dirX + dzdy * light.dirY;
+    const weight = (alignment * alignment) / gradMagSq;
+    const illumination = computePixelHillshadeFast(
+      dzdx,
+      dzdy,
+      light.sunX,
+      light.sunY,
+      light.sunZ,
+      flatIllumination
+    );
+    weighted += weight * illumination;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? weighted / totalWeight : flatIllumination;
+}
+
+/**
+ * Converts a sun position to a light vector.
+ *
+ * Geographic: azimuth 0° = North, clockwise; altitude from horizon
+ * Math: 0° = East, counter-clockwise; zenith from vertical
+ */
+function createLight(altitude: number, azimuth: number): Light {
+  const azimuthRad = ((360 - azimuth + 90) * Math.PI) / 180;
+  const zenithRad = ((90 - altitude) * Math.PI) / 180;
+  const sinZenith = Math.sin(zenithRad);
+  const dirX = Math.cos(azimuthRad);
+  const dirY = Math.sin(azimuthRad);
+
+  return {
+    sunX: sinZenith * dirX,
+    sunY: sinZenith * dirY,
+    sunZ: Math.cos(zenithRad),
+    dirX,
+    dirY,
+  };
+}
+
+/**
+ * Validates a sun position.
+ *
+ * @throws Error if altitude is outside 0-90 or azimuth outside 0-360 degrees
+ */
+export function validateSunPosition(altitude: number, azimuth: number): void {
   if (altitude < 0 || altitude > 90) {
     throw new Error('Altitude must be between 0 and 90 degrees');
   }
@@ -5,6 +5,10 @@
  *
  * - **Elevation**: Decode/encode terrain-rgb images (MapBox, Terrarium)
  * - **Hillshade**: Calculate terrain illumination
+ * - **Slope**: Calculate terrain steepness in degrees
+ * - **Aspect**: Calculate the compass direction terrain faces
+ * - **Resample**: Nearest, bilinear, bicubic, area-average and max grid resampling
+ * - **NoData**: Skip or fill voids in elevation grids
  * - **Contours**: Trace isolines and filled polygons
  * - **Smooth**: Apply Chaikin corner-cutting to geometries
  *
@@ -30,7 +34,7 @@
 export type { Position, Feature, LineString, Polygon, Geometry } from './types';
 export type { ImageDataLike } from './image-data';
 export { WorkersImageData } from './image-data';
-export { createGrid, type Grid } from './grid';
+export { createGrid, gridSampleBilinear, type Grid } from './grid';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Elevation Encoding/Decoding
@@ -39,9 +43,14 @@ export { createGrid, type Grid } from './grid';
 export {
   decodeElevation,
   encodeElevation,
+  getElevationDecoder,
+  decodeMapbox,
+  decodeTerrarium,
+  isNoDataPixel,
   invertGrid,
   clampGrid,
   type TerrainEncoding,
+  type ElevationDecoder,
 } from './elevation';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -52,9 +61,57 @@ export {
   hillshade,
   toImageData,
   getResolution,
+  getGroundResolution,
+  validateSunPosition,
+  MULTIDIRECTIONAL_AZIMUTHS,
   type HillshadeOptions,
 } from './hillshade';
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Slope
+// ─────────────────────────────────────────────────────────────────────────────
+
+export { slope } from './slope';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Aspect
+// ─────────────────────────────────────────────────────────────────────────────
+
+export {
+  aspect,
+  aspectSector,
+  ASPECT_SECTORS,
+  FLAT_ASPECT,
+  FLAT_SECTOR,
+  type AspectOptions,
+  type AspectSector,
+} from './aspect';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Resampling
+// ─────────────────────────────────────────────────────────────────────────────
+
+export {
+  resampleCell,
+  getResamplingMargin,
+  isResamplingMethod,
+  RESAMPLING_METHODS,
+  type ResamplingMethod,
+} from './resample';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// NoData
+// ─────────────────────────────────────────────────────────────────────────────
+
+export {
+  fillNoData,
+  maskNaN,
+  isNoDataMode,
+  NODATA_MODES,
+  type NoDataMode,
+  type NoDataOptions,
+} from './nodata';
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Contours
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,191 @@
+/**
+ * NoData handling for elevation grids.
+ *
+ * Sources contain voids: ocean areas without data, sentinel pixels and
+ * missing tiles. Grids mark them in a NoData mask; the terrain functions
+ * either skip masked cells or fill them from the surrounding values first,
+ * so voids never turn into cliffs.
+ */
+
+import { type Grid, createGrid } from './grid';
+
+/**
+ * How terrain functions treat NoData cells.
+ *
+ * - `skip` - Leave voids out: no contours cross them, polygons end at their
+ *   border and derived values are NoData
+ * - `nearest` - Fill each void cell with the value of the closest valid cell
+ * - `idw` - Fill each void cell by inverse-distance weighting of the closest
+ *   valid cells in 8 directions
+ */
+export type NoDataMode = 'skip' | 'nearest' | 'idw';
+
+/** All NoData modes */
+export const NODATA_MODES: readonly NoDataMode[] = ['skip', 'nearest', 'idw'];
+
+/**
+ * NoData options shared by the terrain functions.
+ */
+export interface NoDataOptions {
+  /** NoData mask of the input (1 = no value). Default: every cell is valid */
+  noData?: Uint8Array;
+  /** Treatment of NoData cells. Default: 'skip' */
+  noDataMode?: NoDataMode;
+}
+
+/** Cells searched in each direction for inverse-distance fill */
+const IDW_SEARCH_DISTANCE = 64;
+
+/** Search directions for inverse-distance fill: 4 axes and 4 diagonals */
+const IDW_DIRECTIONS = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Fills the NoData cells of a grid.
+ *
+ * Returns the grid unchanged for `skip`, when it has no mask, or when no cell
+ * has a value to fill from (the mask is kept, so voids are skipped).
+ *
+ * @example
+ * const filled = fillNoData(elevation, 'idw');
+ */
+export function fillNoData(grid: Grid, mode: NoDataMode): Grid {
+  const { noData, width, height } = grid;
+  if (mode === 'skip' || !noData || !noData.includes(0)) {
+    return grid;
+  }
+
+  const data = fillNearest(grid);
+  if (mode === 'idw') {
+    fillInverseDistance(grid, data);
+  }
+  return { data, width, height };
+}
+
+/**
+ * Creates the working grid of a terrain function: validates the input and
+ * applies the function's NoData options.
+ */
+export function createMaskedGrid(
+  data: Float64Array | number[],
+  width: number,
+  height: number,
+  options?: NoDataOptions
+): Grid {
+  const grid = createGrid(data, width, height, options?.noData);
+  return fillNoData(grid, options?.noDataMode ?? 'skip');
+}
+
+/**
+ * Creates a NoData mask marking the NaN cells of a grid.
+ *
+ * @returns The mask, or undefined when every cell has a value
+ */
+export function maskNaN(data: Float64Array): Uint8Array | undefined {
+  let mask: Uint8Array | undefined;
+  for (let i = 0; i < data.length; i++) {
+    if (Number.isNaN(data[i])) {
+      mask ??= new Uint8Array(data.length);
+      mask[i] = 1;
+    }
+  }
+  return mask;
+}
+
+/**
+ * Checks whether a string names a NoData mode.
+ */
+export function isNoDataMode(value: string): value is NoDataMode {
+  return (NODATA_MODES as readonly string[]).includes(value);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fill Strategies
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Copies the grid and fills every NoData cell with the value of the closest
+ * valid cell, by breadth-first search from all valid cells at once.
+ */
+function fillNearest(grid: Grid): Float64Array {
+  const { width, height } = grid;
+  const noData = grid.noData!;
+  const data = Float64Array.from(grid.data);
+  const filled = Uint8Array.from(noData, (value) => 1 - value);
+
+  const queue = new Int32Array(data.length);
+  let head = 0;
+  let tail = 0;
+  for (let i = 0; i < data.length; i++) {
+    if (filled[i]) queue[tail++] = i;
+  }
+
+  const visit = (from: number, to: number) => {
+    if (!filled[to]) {
+      data[to] = data[from];
+      filled[to] = 1;
+      queue[tail++] = to;
+    }
+  };
+
+  while (head < tail) {
+    const i = queue[head++];
+    const x = i % width;
+    if (x > 0) visit(i, i - 1);
+    if (x < width - 1) visit(i, i + 1);
+    if (i >= width) visit(i, i - width);
+    if (i < (height - 1) * width) visit(i, i + width);
+  }
+
+  return data;
+}
+
+/**
+ * Replaces the nearest fill of each NoData cell by the inverse-distance
+ * weighted mean of the first valid cell in each of 8 directions. Cells with
+ * no valid cell within IDW_SEARCH_DISTANCE keep their nearest fill.
+ */
+function fillInverseDistance(grid: Grid, data: Float64Array): void {
+  const { width, height } = grid;
+  const noData = grid.noData!;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!noData[y * width + x]) continue;
+
+      let sum = 0;
+      let weight = 0;
+      for (const [dx, dy] of IDW_DIRECTIONS) {
+        for (let step = 1; step <= IDW_SEARCH_DISTANCE; step++) {
+          const sx = x + dx * step;
+          const sy = y + dy * step;
+          if (sx < 0 || sx >= width || sy < 0 || sy >= height) break;
+
+          const j = sy * width + sx;
+          if (!noData[j]) {
+            const w = 1 / (step * step * (dx * dx + dy * dy));
+            sum += grid.data[j] * w;
+            weight += w;
+            break;
+          }
+        }
+      }
+
+      if (weight > 0) {
+        data[y * width + x] = sum / weight;
+      }
+    }
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Grid resampling kernels.
+ *
+ * Computes the value of an output cell from the source cells under its
+ * footprint. Used to turn 512-px source tiles into 256-px output grids
+ * without discarding detail, and to upsample when overzooming.
+ *
+ * Coordinates follow the cell-edge convention: source cell (i, j) covers
+ * [i, i + 1) × [j, j + 1), so its center is at (i + 0.5, j + 0.5).
+ */
+
+import { type Grid, gridGet, gridSampleBilinear } from './grid';
+
+/**
+ * Supported resampling methods.
+ *
+ * - `nearest` - Source cell under the footprint center
+ * - `bilinear` - Linear interpolation of the 4 cells around the footprint center
+ * - `bicubic` - Cubic convolution (Keys, a = -0.5) of the 16 surrounding cells
+ * - `area` - Coverage-weighted mean of the cells under the footprint, for
+ *   downsampling; falls back to bilinear when upsampling
+ * - `max` - Highest cell under the footprint, for downsampling without losing
+ *   peaks; falls back to bilinear when upsampling
+ *
+ * NoData (NaN) cells propagate through nearest, bilinear and bicubic. Area and
+ * max ignore them and only return NaN when the whole footprint is NoData.
+ */
+export type ResamplingMethod = 'nearest' | 'bilinear' | 'bicubic' | 'area' | 'max';
+
+/** All resampling methods */
+export const RESAMPLING_METHODS: readonly ResamplingMethod[] = [
+  'nearest',
+  'bilinear',
+  'bicubic',
+  'area',
+  'max',
+];
+
+/** Cubic convolution parameter (Catmull-Rom) */
+const CUBIC_A = -0.5;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Computes the value of an output cell covering the square
+ * [left, left + size) × [top, top + size) of the source grid.
+ *
+ * Reads beyond the grid are clamped to the edge.
+ *
+ * @param grid Source grid
+ * @param left Left edge of the footprint in source cells
+ * @param top Top edge of the footprint in source cells
+ * @param size Footprint width and height in source cells (source/output scale)
+ * @param method Resampling method
+ *
+ * @example
+ * // Downsample a 512-px tile to 256 px
+ * const value = resampleCell(source, ox * 2, oy * 2, 2, 'bilinear');
+ */
+export function resampleCell(
+  grid: Grid,
+  left: number,
+  top: number,
+  size: number,
+  method: ResamplingMethod
+): number {
+  const cx = left + size / 2;
+  const cy = top + size / 2;
+
+  switch (method) {
+    case 'nearest':
+      return gridGet(grid, Math.floor(cx), Math.floor(cy));
+    case 'bilinear':
+      return gridSampleBilinear(grid, cx - 0.5, cy - 0.5);
+    case 'bicubic':
+      return sampleBicubic(grid, cx - 0.5, cy - 0.5);
+    case 'area':
+      if (size <= 1) {
+        return gridSampleBilinear(grid, cx - 0.5, cy - 0.5);
+      }
+      return sampleArea(grid, left, top, size);
+    case 'max':
+      if (size <= 1) {
+        return gridSampleBilinear(grid, cx - 0.5, cy - 0.5);
+      }
+      return sampleMax(grid, left, top, size);
+  }
+}
+
+/**
+ * Number of source cells a method reads beyond an output cell's footprint.
+ * Callers fetching source data must include this margin around the footprints.
+ */
+export function getResamplingMargin(method: ResamplingMethod): number {
+  switch (method) {
+    case 'nearest':
+      return 0;
+    case 'bilinear':
+    case 'area':
+    case 'max':
+      return 1;
+    case 'bicubic':
+      return 2;
+  }
+}
+
+/**
+ * Checks whether a string names a resampling method.
+ */
+export function isResamplingMethod(value: string): value is ResamplingMethod {
+  return (RESAMPLING_METHODS as readonly string[]).includes(value);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Kernels
+// Coordinates below are in cell-center space, like gridSampleBilinear:
+// cell (i, j) is centered at (i, j)
+// ─────────────────────────────────────────────────────────────────────────────
+
+function sampleBicubic(grid: Grid, x: number, y: number): number {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  let result = 0;
+  for (let j = -1; j <= 2; j++) {
+    const wy = cubicWeight(j - fy);
+    let row = 0;
+    for (let i = -1; i <= 2; i++) {
+      row += gridGet(grid, x0 + i, y0 + j) * cubicWeight(i - fx);
+    }
+    result += row * wy;
+  }
+  return result;
+}
+
+/**
+ * Keys cubic convolution kernel. Weights sum to 1 for any offset.
+ */
+function cubicWeight(t: number): number {
+  const d = Math.abs(t);
+  if (d <= 1) {
+    return (CUBIC_A + 2) * d * d * d - (CUBIC_A + 3) * d * d + 1;
+  }
+  if (d < 2) {
+    return CUBIC_A * d * d * d - 5 * CUBIC_A * d * d + 8 * CUBIC_A * d - 4 * CUBIC_A;
+  }
+  return 0;
+}
+
+function sampleArea(grid: Grid, left: number, top: number, size: number): number {
+  const right = left + size;
+  const bottom = top + size;
+
+  let sum = 0;
+  let weight = 0;
+  for (let y = Math.floor(top); y < bottom; y++) {
+    const wy = Math.min(y + 1, bottom) - Math.max(y, top);
+    for (let x = Math.floor(left); x < right; x++) {
+      const value = gridGet(grid, x, y);
+      if (Number.isNaN(value)) continue;
+
+      const w = wy * (Math.min(x + 1, right) - Math.max(x, left));
+      sum += value * w;
+      weight += w;
+    }
+  }
+  return weight > 0 ? sum / weight : NaN;
+}
+
+function sampleMax(grid: Grid, left: number, top: number, size: number): number {
+  const right = left + size;
+  const bottom = top + size;
+
+  // NaN compares false, so NoData cells never become the maximum
+  let max = -Infinity;
+  for (let y = Math.floor(top); y < bottom; y++) {
+    for (let x = Math.floor(left); x < right; x++) {
+      const value = gridGet(grid, x, y);
+      if (value > max) max = value;
+    }
+  }
+  return max === -Infinity ? NaN : max;
+}
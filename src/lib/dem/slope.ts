@@ -0,0 +1,70 @@
+/**
+ * Slope angle calculation.
+ *
+ * Computes the steepness of terrain in degrees from the same Sobel gradient
+ * used for hillshading. Produces values from 0 (flat) to 90 (vertical),
+ * suitable for slope-class maps such as avalanche terrain ratings.
+ *
+ * @see https://pro.arcgis.com/en/pro-app/latest/tool-reference/spatial-analyst/how-slope-works.htm
+ */
+
+import { type Grid, createGrid } from './grid';
+import { type Gradient, getGradientScale, sobelGradient } from './gradient';
+import { type NoDataOptions, createMaskedGrid } from './nodata';
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Calculates slope angles for elevation data.
+ *
+ * The cell size must be the true ground distance between cells for the
+ * angles to be meaningful; prefer `getGroundResolution()` over
+ * `getResolution()` away from the equator.
+ *
+ * @param data Elevation values in row-major order (meters)
+ * @param width Grid width
+ * @param height Grid height
+ * @param cellSize Ground resolution in meters per cell
+ * @param options NoData options
+ * @returns Grid of slope angles in degrees (0-90). When skipping NoData,
+ *   skipped cells are NaN and marked in the result's mask.
+ *
+ * @example
+ * const resolution = getGroundResolution(zoom, latitude);
+ * const slopes = slope(elevation, 257, 257, resolution);
+ */
+export function slope(
+  data: Float64Array | number[],
+  width: number,
+  height: number,
+  cellSize: number,
+  options?: NoDataOptions
+): Grid {
+  const grid = createMaskedGrid(data, width, height, options);
+
+  if (cellSize <= 0) {
+    throw new Error('Cell size must be positive');
+  }
+
+  const result = new Float64Array(width * height);
+  const gradientScale = getGradientScale(cellSize);
+  const gradient: Gradient = { dzdx: 0, dzdy: 0 };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (grid.noData?.[y * width + x]) {
+        result[y * width + x] = NaN;
+        continue;
+      }
+
+      const { dzdx, dzdy } = sobelGradient(grid, x, y, gradientScale, gradient);
+      result[y * width + x] = Math.atan(Math.sqrt(dzdx * dzdx + dzdy * dzdy)) * RAD_TO_DEG;
+    }
+  }
+
+  return createGrid(result, width, height, grid.noData);
+}
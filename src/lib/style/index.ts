@@ -0,0 +1,37 @@
+/**
+ * MapLibre styles for the terrain tiles.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type {
+  StyleLayer,
+  StyleSpecification,
+  StylePalette,
+  StyleLayerGroup,
+  PaletteName,
+  TerrainStyleOptions,
+} from './terrain-style';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export {
+  TERRAIN_SOURCE,
+  STYLE_MIN_ZOOM,
+  STYLE_MAX_ZOOM,
+  STYLE_LAYER_GROUPS,
+  STYLE_LAYER_IDS,
+  DEFAULT_STYLE_LAYERS,
+  PALETTES,
+  DEFAULT_PALETTE,
+} from './terrain-style';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Style
+// ─────────────────────────────────────────────────────────────────────────────
+
+export { buildTerrainStyle, isPaletteName, isStyleLayerGroup } from './terrain-style';
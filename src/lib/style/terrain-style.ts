@@ -0,0 +1,333 @@
+/**
+ * MapLibre style for the terrain tiles.
+ *
+ * Single definition of the hillshade, slope, aspect and contour styling, served
+ * by the worker as /styles/terrain.json and used directly by the React demo.
+ *
+ * @see https://maplibre.org/maplibre-style-spec/
+ */
+
+import type { LayerSpecification, StyleSpecification } from 'maplibre-gl';
+import {
+  CONTOUR_LAYER,
+  HILLSHADE_LAYER,
+  SLOPE_LAYER,
+  ASPECT_LAYER,
+  DEFAULT_SLOPE_BREAKS,
+} from '../tiles/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type { StyleSpecification };
+
+/** A MapLibre style layer */
+export type StyleLayer = LayerSpecification;
+
+/**
+ * Colors used by the terrain style.
+ */
+export interface StylePalette {
+  background: string;
+  shadow: string;
+  highlight: string;
+  contour: string;
+  contourIndex: string;
+  /** Fill of the gentlest and steepest slope classes; classes in between are interpolated */
+  slope: [string, string];
+  /** Fill per aspect sector, clockwise from N */
+  aspect: string[];
+}
+
+/** Terrain layer groups that can be included in the style */
+export type StyleLayerGroup = 'hillshade' | 'slope' | 'aspect' | 'contour';
+
+/**
+ * Terrain style options.
+ */
+export interface TerrainStyleOptions {
+  /** Tile URL template of the terrain source */
+  tileUrl: string;
+  /** Palette name. Default: 'earth' */
+  palette?: PaletteName;
+  /** Layer groups to include. Default: hillshade and contour */
+  layers?: StyleLayerGroup[];
+  /** Slope class breaks of the tiles in degrees, for the slope ramp. Default: DEFAULT_SLOPE_BREAKS */
+  slopeBreaks?: number[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Name of the vector source in the style */
+export const TERRAIN_SOURCE = 'terrain';
+
+/**
+ * Zoom range of the terrain source in the style.
+ * Tiles are overzoomed beyond maxzoom, where source data adds no detail.
+ */
+export const STYLE_MIN_ZOOM = 1;
+export const STYLE_MAX_ZOOM = 15;
+
+/** Layer groups in drawing order */
+export const STYLE_LAYER_GROUPS: readonly StyleLayerGroup[] = [
+  'hillshade',
+  'slope',
+  'aspect',
+  'contour',
+];
+
+/** Layer groups included when none are requested */
+export const DEFAULT_STYLE_LAYERS: StyleLayerGroup[] = ['hillshade', 'contour'];
+
+/** Style layer ids of each layer group, e.g. for toggling visibility */
+export const STYLE_LAYER_IDS: Record<StyleLayerGroup, string[]> = {
+  hillshade: ['hillshade-shadow', 'hillshade-highlight'],
+  slope: ['slope'],
+  aspect: ['aspect'],
+  contour: ['contour-lines', 'contour-index'],
+};
+
+/** Aspect sector colors shared by the palettes: warm south, cool north */
+const ASPECT_COLORS = [
+  '#3a6ea5', // N
+  '#4f9da6', // NE
+  '#8cbf6a', // E
+  '#e3c84f', // SE
+  '#e07b39', // S
+  '#c8553d', // SW
+  '#9b5fa5', // W
+  '#5b5fa5', // NW
+];
+
+/** Available palettes */
+export const PALETTES = {
+  earth: {
+    background: '#c9c4bc',
+    shadow: '#3d3224',
+    highlight: '#fffff0',
+    contour: '#6b5d4d',
+    contourIndex: '#5a4d3f',
+    slope: ['#f2d649', '#8e3fa6'],
+    aspect: ASPECT_COLORS,
+  },
+  grey: {
+    background: '#d6d6d6',
+    shadow: '#1a1a1a',
+    highlight: '#ffffff',
+    contour: '#707070',
+    contourIndex: '#505050',
+    slope: ['#f2d649', '#8e3fa6'],
+    aspect: ASPECT_COLORS,
+  },
+  dark: {
+    background: '#2b2d30',
+    shadow: '#000000',
+    highlight: '#c8d0e0',
+    contour: '#8a8f99',
+    contourIndex: '#b0b5bf',
+    slope: ['#c9b03a', '#b35fd0'],
+    aspect: ASPECT_COLORS,
+  },
+} satisfies Record<string, StylePalette>;
+
+/** Name of an available palette */
+export type PaletteName = keyof typeof PALETTES;
+
+/** Palette used when none is requested */
+export const DEFAULT_PALETTE: PaletteName = 'earth';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Builds the MapLibre style for the terrain tiles.
+ *
+ * Layers are always emitted in drawing order (hillshade, slope, aspect,
+ * contour), regardless of the order of `options.layers`.
+ *
+ * @example
+ * const style = buildTerrainStyle({
+ *   tileUrl: 'https://example.com/tiles/terrain/{z}/{x}/{y}.mvt',
+ *   palette: 'dark',
+ *   layers: ['hillshade', 'slope', 'contour'],
+ * });
+ */
+export function buildTerrainStyle(options: TerrainStyleOptions): StyleSpecification {
+  const {
+    tileUrl,
+    palette = DEFAULT_PALETTE,
+    layers = DEFAULT_STYLE_LAYERS,
+    slopeBreaks = DEFAULT_SLOPE_BREAKS,
+  } = options;
+  const colors: StylePalette = PALETTES[palette];
+
+  const styleLayers: StyleLayer[] = [
+    {
+      id: 'background',
+      type: 'background',
+      paint: { 'background-color': colors.background },
+    },
+  ];
+
+  for (const group of STYLE_LAYER_GROUPS) {
+    if (layers.includes(group)) {
+      styleLayers.push(...LAYER_BUILDERS[group](colors, slopeBreaks));
+    }
+  }
+
+  return {
+    version: 8,
+    name: `Terrain (${palette})`,
+    sources: {
+      [TERRAIN_SOURCE]: {
+        type: 'vector',
+        tiles: [tileUrl],
+        minzoom: STYLE_MIN_ZOOM,
+        maxzoom: STYLE_MAX_ZOOM,
+        attribution: '<a href="https://mapterhorn.com/">Mapterhorn</a>',
+      },
+    },
+    layers: styleLayers,
+  };
+}
+
+/**
+ * Checks whether a string names an available palette.
+ */
+export function isPaletteName(value: string): value is PaletteName {
+  return Object.prototype.hasOwnProperty.call(PALETTES, value);
+}
+
+/**
+ * Checks whether a string names a terrain layer group.
+ */
+export function isStyleLayerGroup(value: string): value is StyleLayerGroup {
+  return (STYLE_LAYER_GROUPS as readonly string[]).includes(value);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Layer Builders
+// ─────────────────────────────────────────────────────────────────────────────
+
+const LAYER_BUILDERS: Record<
+  StyleLayerGroup,
+  (colors: StylePalette, slopeBreaks: number[]) => StyleLayer[]
+> = {
+  hillshade: (colors) => [
+    {
+      id: 'hillshade-shadow',
+      type: 'fill',
+      source: TERRAIN_SOURCE,
+      'source-layer': HILLSHADE_LAYER,
+      filter: ['<', ['get', 'shade'], 0.5],
+      layout: { visibility: 'visible' },
+      paint: {
+        'fill-color': colors.shadow,
+        'fill-opacity': ['interpolate', ['linear'], ['get', 'shade'], 0, 0.6, 0.5, 0],
+        'fill-antialias': false,
+      },
+    },
+    {
+      id: 'hillshade-highlight',
+      type: 'fill',
+      source: TERRAIN_SOURCE,
+      'source-layer': HILLSHADE_LAYER,
+      filter: ['>=', ['get', 'shade'], 0.5],
+      layout: { visibility: 'visible' },
+      paint: {
+        'fill-color': colors.highlight,
+        'fill-opacity': ['interpolate', ['linear'], ['get', 'shade'], 0.5, 0, 1, 0.5],
+        'fill-antialias': false,
+      },
+    },
+  ],
+
+  // Slope classes are nested, so each class is painted over the gentler ones;
+  // a single class takes the gentlest color
+  slope: (colors, slopeBreaks) => [
+    {
+      id: 'slope',
+      type: 'fill',
+      source: TERRAIN_SOURCE,
+      'source-layer': SLOPE_LAYER,
+      layout: { visibility: 'visible' },
+      paint: {
+        'fill-color':
+          slopeBreaks.length > 1
+            ? [
+                'interpolate',
+                ['linear'],
+                ['get', 'minDeg'],
+                slopeBreaks[0],
+                colors.slope[0],
+                slopeBreaks[slopeBreaks.length - 1],
+                colors.slope[1],
+              ]
+            : colors.slope[0],
+        'fill-opacity': 0.4,
+        'fill-antialias': false,
+      },
+    },
+  ],
+
+  aspect: (colors) => [
+    {
+      id: 'aspect',
+      type: 'fill',
+      source: TERRAIN_SOURCE,
+      'source-layer': ASPECT_LAYER,
+      filter: ['!=', ['get', 'sector'], 'flat'],
+      layout: { visibility: 'visible' },
+      paint: {
+        'fill-color': [
+          'match',
+          ['get', 'sector'],
+          'N', colors.aspect[0],
+          'NE', colors.aspect[1],
+          'E', colors.aspect[2],
+          'SE', colors.aspect[3],
+          'S', colors.aspect[4],
+          'SW', colors.aspect[5],
+          'W', colors.aspect[6],
+          'NW', colors.aspect[7],
+          'transparent',
+        ],
+        'fill-opacity': 0.35,
+        'fill-antialias': false,
+      },
+    },
+  ],
+
+  contour: (colors) => [
+    {
+      id: 'contour-lines',
+      type: 'line',
+      source: TERRAIN_SOURCE,
+      'source-layer': CONTOUR_LAYER,
+      filter: ['==', ['get', 'index'], false],
+      layout: { visibility: 'visible' },
+      paint: {
+        'line-color': colors.contour,
+        'line-width': 0.6,
+        'line-opacity': 0.4,
+      },
+    },
+    {
+      id: 'contour-index',
+      type: 'line',
+      source: TERRAIN_SOURCE,
+      'source-layer': CONTOUR_LAYER,
+      filter: ['==', ['get', 'index'], true],
+      layout: { visibility: 'visible' },
+      paint: {
+        'line-color': colors.contourIndex,
+        'line-width': 1,
+        'line-opacity': 0.5,
+      },
+    },
+  ],
+};
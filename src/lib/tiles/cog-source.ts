@@ -0,0 +1,342 @@
+/**
+ * Cloud-Optimized GeoTIFF DEM source.
+ * Reads elevation rasters such as LiDAR DEMs directly from (Cloud-Optimized)
+ * GeoTIFFs, fetching only the internal tiles a web mercator tile overlaps.
+ */
+
+import { GeoTIFF, type GeoTIFFImage, fromArrayBuffer } from 'geotiff';
+import { type Grid, gridGet, gridSampleBilinear } from '../dem/grid';
+import { maskNaN } from '../dem/nodata';
+import type { TileCoord, BufferedGrid, DemSource } from './types';
+import { TILE_SIZE, SOURCE_TILE_SIZE } from './types';
+import { tileToMercatorBounds } from './fetcher';
+import { type UpstreamOptions, fetchUpstream } from './upstream';
+
+/**
+ * CogSource options.
+ */
+export interface CogSourceOptions {
+  /** Interpolation of raster cells at output pixel centers. Default: 'bilinear' */
+  resampling?: 'nearest' | 'bilinear';
+  /** Raster value marking missing data. Default: the GDAL_NODATA tag, if any */
+  noDataValue?: number;
+  /**
+   * Most raster cells read for a tile. Tiles needing more, where the raster
+   * lacks overviews coarse enough for the zoom, read as NoData.
+   * Default: MAX_WINDOW_CELLS
+   */
+  maxWindowCells?: number;
+  /** Timeout, retry and circuit breaker settings of remote GeoTIFFs */
+  upstream?: UpstreamOptions;
+}
+
+/** Byte source of a GeoTIFF, as read by geotiff */
+type GeoTIFFSource = Parameters<typeof GeoTIFF.fromSource>[0];
+
+/** Coordinate reference systems supported by CogSource */
+type CogCrs = 'EPSG:3857' | 'EPSG:4326';
+
+/** Georeferencing of the full-resolution image and its overviews */
+interface RasterInfo {
+  crs: CogCrs;
+  originX: number;
+  originY: number;
+  /** Full-resolution cell size; resY is negative for north-up rasters */
+  resX: number;
+  resY: number;
+  /** Full-resolution image followed by its overviews, finest first */
+  images: GeoTIFFImage[];
+  noDataValue: number | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Earth's semi-major axis in meters (WGS84) */
+const EARTH_RADIUS = 6378137;
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+/** EPSG codes of Web Mercator, including the deprecated unofficial ones */
+const WEB_MERCATOR_CODES = [3857, 3785, 900913];
+
+/** Cells read beyond the sampled area, for bilinear interpolation */
+const WINDOW_MARGIN = 1;
+
+/** Default limit of the raster cells read for a tile: 16 MiB of float32 */
+const MAX_WINDOW_CELLS = 2048 * 2048;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// COG Source
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Reads elevation grids for web mercator tiles from a GeoTIFF.
+ *
+ * Remote files are read with HTTP range requests, so only the header and the
+ * internal tiles under the requested area are transferred. Failing requests
+ * throw an UpstreamError (see fetchUpstream). The overview
+ * closest to (but not coarser than) the output resolution is used.
+ *
+ * Rasters must be single-band elevations in EPSG:3857 or EPSG:4326. Pixels
+ * outside the raster and NoData cells are NaN in the grid and marked in its
+ * NoData mask, as are whole tiles that would read more than `maxWindowCells`
+ * cells for lack of overviews.
+ *
+ * @example
+ * const source = new CogSource('https://example.com/lidar-dem.tif');
+ * const { grid, noData } = await source.fetchTile({ z: 16, x: 34118, y: 23069 }, 8);
+ */
+export class CogSource implements DemSource {
+  private raster: Promise<RasterInfo> | null = null;
+  private readonly resampling: 'nearest' | 'bilinear';
+  private readonly maxWindowCells: number;
+
+  /**
+   * @param source URL of the GeoTIFF, or its contents
+   * @param options Resampling, NoData and upstream options
+   */
+  constructor(
+    private readonly source: string | ArrayBuffer,
+    private readonly options: CogSourceOptions = {}
+  ) {
+    this.resampling = options.resampling ?? 'bilinear';
+    this.maxWindowCells = options.maxWindowCells ?? MAX_WINDOW_CELLS;
+  }
+
+  async fetchTile(coord: TileCoord, bufferPx: number = 0): Promise<BufferedGrid> {
+    const { data, width, height, noData } = await this.readTile(coord, TILE_SIZE, bufferPx);
+    return noData
+      ? { grid: data, width, height, bufferPx, noData }
+      : { grid: data, width, height, bufferPx };
+  }
+
+  /**
+   * Reads a tile at SOURCE_TILE_SIZE resolution, for point queries.
+   */
+  fetchSourceTile(coord: TileCoord): Promise<Grid> {
+    return this.readTile(coord, SOURCE_TILE_SIZE, 0);
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Tile Reading
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Samples a square grid of `tileSize + 2 * bufferPx` pixels covering a tile
+   * and `bufferPx` pixels around it.
+   */
+  private async readTile(coord: TileCoord, tileSize: number, bufferPx: number): Promise<Grid> {
+    const raster = await this.getRaster();
+    const { z, x, y } = coord;
+    const outputSize = tileSize + 2 * bufferPx;
+
+    // Output pixel centers in Web Mercator; columns and rows are independent
+    const bounds = tileToMercatorBounds(z, x, y);
+    const pixelSize = (bounds.maxX - bounds.minX) / tileSize;
+    const xs = new Float64Array(outputSize);
+    const ys = new Float64Array(outputSize);
+    for (let i = 0; i < outputSize; i++) {
+      xs[i] = bounds.minX + (i - bufferPx + 0.5) * pixelSize;
+      ys[i] = bounds.maxY - (i - bufferPx + 0.5) * pixelSize;
+    }
+    if (raster.crs === 'EPSG:4326') {
+      xs.forEach((mx, i) => (xs[i] = mercatorToLon(mx)));
+      ys.forEach((my, i) => (ys[i] = mercatorToLat(my)));
+    }
+
+    // Pick the coarsest image still at least as fine as the output pixels
+    const outputRes = Math.abs(xs[outputSize - 1] - xs[0]) / Math.max(1, outputSize - 1);
+    const fullWidth = raster.images[0].getWidth();
+    let image = raster.images[0];
+    for (const candidate of raster.images) {
+      if ((raster.resX * fullWidth) / candidate.getWidth() <= outputRes) {
+        image = candidate;
+      }
+    }
+
+    // Output pixel centers in the image's cell-center coordinates
+    const scale = fullWidth / image.getWidth();
+    const cols = xs.map((value) => (value - raster.originX) / (raster.resX * scale) - 0.5);
+    const rows = ys.map((value) => (value - raster.originY) / (raster.resY * scale) - 0.5);
+
+    const window = await this.readWindow(image, raster.noDataValue, cols, rows);
+    const grid = new Float64Array(outputSize * outputSize);
+
+    for (let oy = 0; oy < outputSize; oy++) {
+      const row = rows[oy];
+      const rowInside = row >= -0.5 && row < image.getHeight() - 0.5;
+      for (let ox = 0; ox < outputSize; ox++) {
+        const col = cols[ox];
+        const inside = rowInside && col >= -0.5 && col < image.getWidth() - 0.5;
+        grid[oy * outputSize + ox] =
+          inside && window ? this.sample(window.grid, col - window.left, row - window.top) : NaN;
+      }
+    }
+
+    const noData = maskNaN(grid);
+    return noData
+      ? { data: grid, width: outputSize, height: outputSize, noData }
+      : { data: grid, width: outputSize, height: outputSize };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Raster Access
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Opens the GeoTIFF and reads its georeferencing once.
+   *
+   * @throws Error if the raster is not in a supported CRS
+   */
+  private getRaster(): Promise<RasterInfo> {
+    this.raster ??= this.openRaster().catch((error) => {
+      // Allow a later request to retry after a failed open
+      this.raster = null;
+      throw error;
+    });
+    return this.raster;
+  }
+
+  private async openRaster(): Promise<RasterInfo> {
+    const tiff: GeoTIFF =
+      typeof this.source === 'string'
+        ? await GeoTIFF.fromSource(createUpstreamSource(this.source, this.options.upstream ?? {}))
+        : await fromArrayBuffer(this.source);
+
+    const count = await tiff.getImageCount();
+    const images: GeoTIFFImage[] = [];
+    for (let i = 0; i < count; i++) {
+      images.push(await tiff.getImage(i));
+    }
+    // Overviews share the full image's extent with fewer, larger cells
+    images.sort((a, b) => b.getWidth() - a.getWidth());
+
+    const [fullImage] = images;
+    const [originX, originY] = fullImage.getOrigin();
+    const [resX, resY] = fullImage.getResolution();
+
+    return {
+      crs: getCrs(fullImage),
+      originX,
+      originY,
+      resX,
+      resY,
+      images,
+      noDataValue: this.options.noDataValue ?? fullImage.getGDALNoData(),
+    };
+  }
+
+  /**
+   * Reads the cells of an image around the given cell-center coordinates,
+   * clamped to the image. NoData cells are NaN; float32 rasters store the
+   * NoData value rounded to single precision, so it is compared rounded.
+   *
+   * @returns The cells and the image position of their top-left cell, or
+   *   null if the coordinates lie outside the image or span more than
+   *   `maxWindowCells` cells
+   */
+  private async readWindow(
+    image: GeoTIFFImage,
+    noDataValue: number | null,
+    cols: Float64Array,
+    rows: Float64Array
+  ): Promise<{ grid: Grid; left: number; top: number } | null> {
+    const left = Math.max(0, Math.floor(Math.min(cols[0], cols[cols.length - 1])) - WINDOW_MARGIN);
+    const top = Math.max(0, Math.floor(Math.min(rows[0], rows[rows.length - 1])) - WINDOW_MARGIN);
+    const right = Math.min(
+      image.getWidth(),
+      Math.ceil(Math.max(cols[0], cols[cols.length - 1])) + WINDOW_MARGIN + 1
+    );
+    const bottom = Math.min(
+      image.getHeight(),
+      Math.ceil(Math.max(rows[0], rows[rows.length - 1])) + WINDOW_MARGIN + 1
+    );
+    if (left >= right || top >= bottom || (right - left) * (bottom - top) > this.maxWindowCells) {
+      return null;
+    }
+
+    const [band] = await image.readRasters({ window: [left, top, right, bottom], samples: [0] });
+    const values = band as ArrayLike<number>;
+    const sentinel =
+      noDataValue !== null && values instanceof Float32Array ? Math.fround(noDataValue) : noDataValue;
+    const data = new Float64Array(values.length);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = values[i] === sentinel ? NaN : values[i];
+    }
+
+    return { grid: { data, width: right - left, height: bottom - top }, left, top };
+  }
+
+  /**
+   * Interpolates the window at cell-center coordinates.
+   */
+  private sample(grid: Grid, x: number, y: number): number {
+    if (this.resampling === 'nearest') {
+      return gridGet(grid, Math.round(x), Math.round(y));
+    }
+    return gridSampleBilinear(grid, x, y);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Remote Access
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Creates a geotiff source reading byte ranges of a remote GeoTIFF through
+ * fetchUpstream, with its timeout, retries and circuit breaker.
+ */
+function createUpstreamSource(url: string, options: UpstreamOptions): GeoTIFFSource {
+  const fetchSlice = async ({ offset, length }: { offset: number; length: number }) => {
+    const data = await fetchUpstream(url, options, { offset, length });
+    if (!data) {
+      throw new Error(`GeoTIFF ${url} not found`);
+    }
+    if (data.byteLength > length) {
+      throw new Error(`${url} does not support HTTP range requests`);
+    }
+    return { data, offset, length };
+  };
+
+  return {
+    fetch: (slices) => Promise.all(slices.map(async (slice) => (await fetchSlice(slice)).data)),
+    fetchSlice,
+    fileSize: null,
+    close: async () => {},
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Projection Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Determines the CRS of an image from its GeoKeys.
+ *
+ * @throws Error if the CRS is neither Web Mercator nor WGS84
+ */
+function getCrs(image: GeoTIFFImage): CogCrs {
+  const geoKeys = image.getGeoKeys() ?? {};
+  const projected = geoKeys.ProjectedCSTypeGeoKey;
+  const geographic = geoKeys.GeographicTypeGeoKey;
+
+  if (typeof projected === 'number' && WEB_MERCATOR_CODES.includes(projected)) {
+    return 'EPSG:3857';
+  }
+  if (projected === undefined && geographic === 4326) {
+    return 'EPSG:4326';
+  }
+  throw new Error(
+    `Unsupported COG projection EPSG:${projected ?? geographic ?? 'unknown'}; use EPSG:3857 or EPSG:4326`
+  );
+}
+
+function mercatorToLon(x: number): number {
+  return (x / EARTH_RADIUS) * RAD_TO_DEG;
+}
+
+function mercatorToLat(y: number): number {
+  return Math.atan(Math.sinh(y / EARTH_RADIUS)) * RAD_TO_DEG;
+}
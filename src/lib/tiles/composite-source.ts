@@ -0,0 +1,339 @@
+/**
+ * Composite DEM source.
+ * Fills each tile from an ordered list of DEM sources, such as national LiDAR
+ * where available and a global DEM elsewhere.
+ */
+
+import type { TileCoord, BufferedGrid, DemSource } from './types';
+import { TILE_SIZE, SOURCE_TILE_SIZE, MIN_ZOOM, MAX_ZOOM, WORLD_BOUNDS } from './types';
+import { tileToMercatorBounds } from './fetcher';
+import { type Grid, gridSampleBilinear } from '../dem/grid';
+import { maskNaN } from '../dem/nodata';
+
+/**
+ * A DEM source of a composite, with the area and zoom range it covers.
+ */
+export interface CompositeLayer {
+  source: DemSource;
+  /** Coverage as [west, south, east, north] in degrees. Default: WORLD_BOUNDS */
+  bounds?: [number, number, number, number];
+  /** First zoom level the source serves. Default: MIN_ZOOM */
+  minZoom?: number;
+  /** Last zoom level the source serves. Default: MAX_ZOOM */
+  maxZoom?: number;
+}
+
+/**
+ * CompositeSource options.
+ */
+export interface CompositeSourceOptions {
+  /**
+   * Width in output pixels of the band inside each source's coverage edge
+   * over which it is blended into the sources below it. Default: 0 (hard edges)
+   */
+  featherPx?: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Earth's semi-major axis in meters (WGS84) */
+const EARTH_RADIUS = 6378137;
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+/** Remaining weight below which a pixel counts as fully covered */
+const COVERED_EPSILON = 1e-9;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Composite Source
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Composes elevation grids from DEM sources in priority order.
+ *
+ * Each pixel takes its value from the first source, in list order, that
+ * covers it: the pixel lies inside the source's bounds, the tile's zoom is in
+ * its zoom range, and the source has a value there. A source whose fetch
+ * fails is skipped for the tile, and NoData pixels fall through to the next
+ * source, so lower-priority sources are only fetched while pixels remain
+ * uncovered. Tiles composed while a source failed are flagged `degraded`.
+ *
+ * With `featherPx`, each source fades out over that many pixels towards its
+ * coverage edge and is blended with the sources below, avoiding contour jumps
+ * where, e.g., a LiDAR DEM meets a coarser global DEM. Coverage edges are
+ * found within the buffered grid, so feather widths up to the buffer keep
+ * adjacent tiles seamless.
+ *
+ * Point queries (fetchSourceTile) compose the sources' own grids the same
+ * way, resampled to SOURCE_TILE_SIZE, so they agree with the terrain tiles.
+ *
+ * @example
+ * const source = new CompositeSource(
+ *   [
+ *     { source: new CogSource(lidarUrl), bounds: [5.9, 45.8, 10.5, 47.8], minZoom: 10 },
+ *     { source: new TileFetcher(DEFAULT_TILE_URL) },
+ *   ],
+ *   { featherPx: 8 }
+ * );
+ */
+export class CompositeSource implements DemSource {
+  private readonly featherPx: number;
+
+  constructor(
+    private readonly layers: CompositeLayer[],
+    options: CompositeSourceOptions = {}
+  ) {
+    this.featherPx = Math.max(0, options.featherPx ?? 0);
+  }
+
+  /**
+   * @throws Error if no source covers the tile, or every covering source fails
+   */
+  async fetchTile(coord: TileCoord, bufferPx: number = 0): Promise<BufferedGrid> {
+    const { grid, degraded } = await this.compose(coord, TILE_SIZE, bufferPx, async (source) => {
+      const tile = await source.fetchTile(coord, bufferPx);
+      return {
+        grid: { data: tile.grid, width: tile.width, height: tile.height },
+        degraded: tile.degraded ?? false,
+      };
+    });
+    const { data, width, height, noData } = grid;
+    const tile: BufferedGrid = noData
+      ? { grid: data, width, height, bufferPx, noData }
+      : { grid: data, width, height, bufferPx };
+    if (degraded) {
+      tile.degraded = true;
+    }
+    return tile;
+  }
+
+  /**
+   * Composes the sources' grids at SOURCE_TILE_SIZE resolution, for point
+   * queries.
+   *
+   * @throws Error if no source covers the tile, or every covering source fails
+   */
+  async fetchSourceTile(coord: TileCoord): Promise<Grid> {
+    const { grid } = await this.compose(coord, SOURCE_TILE_SIZE, 0, async (source) => ({
+      grid: resizeGrid(await source.fetchSourceTile(coord), SOURCE_TILE_SIZE),
+      degraded: false,
+    }));
+    return grid;
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Compositing
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Composes grids of `tileSize + 2 * bufferPx` pixels read from the sources
+   * by `read`. The result is degraded when a source failed or returned a
+   * degraded grid.
+   */
+  private async compose(
+    coord: TileCoord,
+    tileSize: number,
+    bufferPx: number,
+    read: (source: DemSource) => Promise<{ grid: Grid; degraded: boolean }>
+  ): Promise<{ grid: Grid; degraded: boolean }> {
+    const size = tileSize + 2 * bufferPx;
+    const { lons, lats } = getPixelCenters(coord, tileSize, bufferPx);
+    const candidates = this.layers.filter((layer) => coversTile(layer, coord, lons, lats));
+    if (candidates.length === 0) {
+      throw new Error(`No DEM source covers tile ${coord.z}/${coord.x}/${coord.y}`);
+    }
+
+    // Composite front to back: each source takes its weight of what remains
+    const sum = new Float64Array(size * size);
+    const remaining = new Float64Array(size * size).fill(1);
+    let fetched = false;
+    let degraded = false;
+    let lastError: unknown = null;
+
+    // Feather widths are in output pixels of TILE_SIZE tiles
+    const featherPx = (this.featherPx * tileSize) / TILE_SIZE;
+
+    for (const layer of candidates) {
+      let tile: Grid;
+      try {
+        const result = await read(layer.source);
+        tile = result.grid;
+        degraded ||= result.degraded;
+      } catch (error) {
+        lastError = error;
+        degraded = true;
+        continue;
+      }
+      fetched = true;
+
+      const weights = getCoverageWeights(layer, tile, lons, lats, featherPx);
+      let uncovered = false;
+      for (let i = 0; i < sum.length; i++) {
+        const weight = weights[i] * remaining[i];
+        if (weight > 0) {
+          sum[i] += tile.data[i] * weight;
+          remaining[i] -= weight;
+        }
+        uncovered ||= remaining[i] > COVERED_EPSILON;
+      }
+      if (!uncovered) break;
+    }
+
+    if (!fetched) {
+      throw lastError;
+    }
+
+    // Normalize where the sources cover less than the full weight
+    const grid = new Float64Array(size * size);
+    for (let i = 0; i < grid.length; i++) {
+      const covered = 1 - remaining[i];
+      grid[i] = covered > COVERED_EPSILON ? sum[i] / covered : NaN;
+    }
+
+    const noData = maskNaN(grid);
+    return {
+      grid: noData
+        ? { data: grid, width: size, height: size, noData }
+        : { data: grid, width: size, height: size },
+      degraded,
+    };
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Computes the weight of a source at each pixel: 0 outside its coverage,
+ * rising to 1 over `featherPx` pixels inside it.
+ */
+function getCoverageWeights(
+  layer: CompositeLayer,
+  tile: Grid,
+  lons: Float64Array,
+  lats: Float64Array,
+  featherPx: number
+): Float64Array {
+  const { width, height } = tile;
+  const [west, south, east, north] = layer.bounds ?? WORLD_BOUNDS;
+  const weights = new Float64Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const rowInside = lats[y] >= south && lats[y] <= north;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const inside = rowInside && lons[x] >= west && lons[x] <= east;
+      weights[i] = inside && !Number.isNaN(tile.data[i]) ? 1 : 0;
+    }
+  }
+
+  if (featherPx > 0) {
+    const distances = distanceToUncovered(weights, width, height);
+    for (let i = 0; i < weights.length; i++) {
+      weights[i] = Math.min(1, distances[i] / (featherPx + 1));
+    }
+  }
+  return weights;
+}
+
+/**
+ * Computes the WGS84 longitudes of the pixel columns and latitudes of the
+ * pixel rows of a buffered tile of `tileSize` pixels.
+ */
+function getPixelCenters(
+  coord: TileCoord,
+  tileSize: number,
+  bufferPx: number
+): { lons: Float64Array; lats: Float64Array } {
+  const bounds = tileToMercatorBounds(coord.z, coord.x, coord.y);
+  const pixelSize = (bounds.maxX - bounds.minX) / tileSize;
+  const size = tileSize + 2 * bufferPx;
+  const lons = new Float64Array(size);
+  const lats = new Float64Array(size);
+
+  for (let i = 0; i < size; i++) {
+    const mx = bounds.minX + (i - bufferPx + 0.5) * pixelSize;
+    const my = bounds.maxY - (i - bufferPx + 0.5) * pixelSize;
+    lons[i] = (mx / EARTH_RADIUS) * RAD_TO_DEG;
+    lats[i] = Math.atan(Math.sinh(my / EARTH_RADIUS)) * RAD_TO_DEG;
+  }
+  return { lons, lats };
+}
+
+/**
+ * Bilinearly resamples a grid covering a tile to `size` × `size` pixels.
+ * Cells next to NoData become NoData.
+ */
+function resizeGrid(grid: Grid, size: number): Grid {
+  if (grid.width === size && grid.height === size) {
+    return grid;
+  }
+
+  const data = new Float64Array(size * size);
+  const scaleX = grid.width / size;
+  const scaleY = grid.height / size;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      data[y * size + x] = gridSampleBilinear(grid, (x + 0.5) * scaleX - 0.5, (y + 0.5) * scaleY - 0.5);
+    }
+  }
+  return { data, width: size, height: size };
+}
+
+/**
+ * Checks whether a layer serves the tile's zoom and its bounds overlap the
+ * buffered tile.
+ */
+function coversTile(
+  layer: CompositeLayer,
+  coord: TileCoord,
+  lons: Float64Array,
+  lats: Float64Array
+): boolean {
+  const [west, south, east, north] = layer.bounds ?? WORLD_BOUNDS;
+  return (
+    coord.z >= (layer.minZoom ?? MIN_ZOOM) &&
+    coord.z <= (layer.maxZoom ?? MAX_ZOOM) &&
+    west <= lons[lons.length - 1] &&
+    east >= lons[0] &&
+    south <= lats[0] &&
+    north >= lats[lats.length - 1]
+  );
+}
+
+/**
+ * Computes, for each covered pixel (weight 1), the approximate Euclidean
+ * distance in pixels to the nearest uncovered pixel, by a two-pass chamfer
+ * transform. Uncovered pixels are 0; pixels beyond the grid count as covered.
+ */
+function distanceToUncovered(covered: Float64Array, width: number, height: number): Float64Array {
+  const distances = Float64Array.from(covered, (value) => (value > 0 ? Infinity : 0));
+  const relax = (i: number, x: number, y: number, step: number) => {
+    if (x >= 0 && x < width && y >= 0 && y < height) {
+      distances[i] = Math.min(distances[i], distances[y * width + x] + step);
+    }
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      relax(i, x - 1, y, 1);
+      relax(i, x, y - 1, 1);
+      relax(i, x - 1, y - 1, Math.SQRT2);
+      relax(i, x + 1, y - 1, Math.SQRT2);
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      relax(i, x + 1, y, 1);
+      relax(i, x, y + 1, 1);
+      relax(i, x + 1, y + 1, Math.SQRT2);
+      relax(i, x - 1, y + 1, Math.SQRT2);
+    }
+  }
+  return distances;
+}
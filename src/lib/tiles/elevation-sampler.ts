@@ -0,0 +1,173 @@
+/**
+ * Point elevation sampling from DEM tiles.
+ *
+ * Locates the source tile covering each point, fetches every distinct tile
+ * once, in small batches, and bilinearly interpolates the elevation at the
+ * exact location.
+ */
+
+import { gridSampleBilinear } from '../dem/grid';
+import { getResolution } from '../dem/hillshade';
+import type { TileCoord, DemSource } from './types';
+import {
+  MIN_ZOOM,
+  MAX_ZOOM,
+  WORLD_BOUNDS,
+  MAX_ELEVATION_TILES,
+  ELEVATION_FETCH_BATCH,
+} from './types';
+
+/**
+ * A geographic position in WGS84 degrees.
+ */
+export interface LngLat {
+  lon: number;
+  lat: number;
+}
+
+/**
+ * Elevation sampled at a point.
+ */
+export interface ElevationSample extends LngLat {
+  /** Elevation in meters, or NaN where the source has no data */
+  elevation: number;
+  /** Source tile the elevation was sampled from */
+  tile: TileCoord;
+  /** Ground resolution of the source tile at the equator (meters/pixel) */
+  resolution: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Samples elevations for a list of points at a source zoom level.
+ *
+ * Points sharing a tile trigger a single fetch. Tiles are fetched
+ * ELEVATION_FETCH_BATCH at a time, and each is released once its points are
+ * sampled. Results are returned in the order of the input points.
+ *
+ * @throws Error if a point or the zoom is out of range, the points span more
+ *   than MAX_ELEVATION_TILES tiles, or a tile fails to load
+ *
+ * @example
+ * const [sample] = await sampleElevations(fetcher, [{ lon: 7.45, lat: 46.95 }], 12);
+ * console.log(sample.elevation);
+ */
+export async function sampleElevations(
+  fetcher: Pick<DemSource, 'fetchSourceTile'>,
+  points: LngLat[],
+  zoom: number
+): Promise<ElevationSample[]> {
+  validateElevationQuery(points, zoom);
+
+  const locations = points.map((point) => lngLatToTilePosition(point, zoom));
+  const groups = [...groupByTile(locations).values()];
+  const samples: ElevationSample[] = new Array(points.length);
+
+  for (let start = 0; start < groups.length; start += ELEVATION_FETCH_BATCH) {
+    const batch = groups.slice(start, start + ELEVATION_FETCH_BATCH);
+    const grids = await Promise.all(
+      batch.map((indices) => fetcher.fetchSourceTile(locations[indices[0]].tile))
+    );
+
+    batch.forEach((indices, j) => {
+      const grid = grids[j];
+      for (const i of indices) {
+        const { tile, u, v } = locations[i];
+        // Cell centers sit at half-pixel offsets within the tile
+        samples[i] = {
+          lon: points[i].lon,
+          lat: points[i].lat,
+          elevation: gridSampleBilinear(grid, u * grid.width - 0.5, v * grid.height - 0.5),
+          tile,
+          resolution: getResolution(zoom, grid.width),
+        };
+      }
+    });
+  }
+
+  return samples;
+}
+
+/**
+ * Finds the tile covering a point and the point's position within it.
+ *
+ * @returns Tile coordinates and the fractional position (u, v) within the
+ *   tile, from (0, 0) at the top-left to (1, 1) at the bottom-right corner
+ */
+export function lngLatToTilePosition(
+  point: LngLat,
+  zoom: number
+): { tile: TileCoord; u: number; v: number } {
+  const n = Math.pow(2, zoom);
+  const latRad = (point.lat * Math.PI) / 180;
+
+  const fx = ((point.lon + 180) / 360) * n;
+  const fy = ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n;
+
+  // The east and south edges belong to the last tile
+  const x = Math.max(0, Math.min(n - 1, Math.floor(fx)));
+  const y = Math.max(0, Math.min(n - 1, Math.floor(fy)));
+
+  return { tile: { z: zoom, x, y }, u: fx - x, v: fy - y };
+}
+
+/**
+ * Groups point indices by the key of the tile covering them, in order of
+ * first appearance.
+ */
+function groupByTile(locations: { tile: TileCoord }[]): Map<string, number[]> {
+  const groups = new Map<string, number[]>();
+  locations.forEach(({ tile }, i) => {
+    const key = `${tile.z}/${tile.x}/${tile.y}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(i);
+    } else {
+      groups.set(key, [i]);
+    }
+  });
+  return groups;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Validation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Validates points and zoom of an elevation query, including the number of
+ * source tiles the points span.
+ *
+ * @throws Error with a client-facing message if a value is out of range
+ */
+export function validateElevationQuery(points: LngLat[], zoom: number): void {
+  validateZoom(zoom);
+  for (const point of points) {
+    validateLngLat(point);
+  }
+
+  const tiles = groupByTile(points.map((point) => lngLatToTilePosition(point, zoom))).size;
+  if (tiles > MAX_ELEVATION_TILES) {
+    throw new Error(
+      `Points span ${tiles} tiles at zoom ${zoom}, more than the ${MAX_ELEVATION_TILES} allowed; use a lower zoom`
+    );
+  }
+}
+
+function validateZoom(zoom: number): void {
+  if (!Number.isInteger(zoom) || zoom < MIN_ZOOM || zoom > MAX_ZOOM) {
+    throw new Error(`Zoom must be an integer between ${MIN_ZOOM} and ${MAX_ZOOM}`);
+  }
+}
+
+function validateLngLat({ lon, lat }: LngLat): void {
+  const [west, south, east, north] = WORLD_BOUNDS;
+  if (!Number.isFinite(lon) || lon < west || lon > east) {
+    throw new Error(`Longitude must be between ${west} and ${east} degrees`);
+  }
+  if (!Number.isFinite(lat) || lat < south || lat > north) {
+    throw new Error(`Latitude must be between ${south} and ${north} degrees`);
+  }
+}
@@ -1,18 +1,69 @@
 /**
  * Tile fetcher for DEM data.
- * Fetches Terrarium-encoded elevation tiles from WebP/PNG sources.
+ * Fetches Terrarium or MapBox terrain-rgb elevation tiles from WebP/PNG sources,
+ * either over HTTP from a URL template or from a TileStore.
  */
 
 import { PhotonImage } from '@cf-wasm/photon';
-import type { TileCoord, BufferedGrid } from './types';
-import { TILE_SIZE, SOURCE_TILE_SIZE } from './types';
+import type { Grid } from '../dem/grid';
+import {
+  type TerrainEncoding,
+  type ElevationDecoder,
+  getElevationDecoder,
+  isNoDataPixel,
+} from '../dem/elevation';
+import { type ResamplingMethod, resampleCell, getResamplingMargin } from '../dem/resample';
+import { maskNaN } from '../dem/nodata';
+import { type CacheStats, LruCache } from './lru-cache';
+import { type UpstreamOptions, fetchUpstream } from './upstream';
+import type { TileCoord, BufferedGrid, DemSource, TileStore } from './types';
+import {
+  TILE_SIZE,
+  SOURCE_TILE_SIZE,
+  MAX_UNDERZOOM_DEPTH,
+  DEFAULT_TILE_CACHE_BYTES,
+} from './types';
 
 /**
- * Decodes Terrarium RGB to elevation.
- * Formula: elevation = (R * 256 + G + B / 256) - 32768
+ * Builds tiles in a zoom range from source tiles `depth` levels deeper,
+ * downsampled to the output size.
  */
-function terrariumToElevation(r: number, g: number, b: number): number {
-  return r * 256 + g + b / 256 - 32768;
+export interface UnderzoomRule {
+  /** First zoom level the rule applies to */
+  minZoom: number;
+  /** Last zoom level the rule applies to */
+  maxZoom: number;
+  /** Source levels below the tile, at most MAX_UNDERZOOM_DEPTH */
+  depth: number;
+  /** Mean (`area`) or peak-preserving (`max`) downsampling */
+  method: 'area' | 'max';
+}
+
+/**
+ * TileFetcher options.
+ */
+export interface TileFetcherOptions {
+  /** RGB encoding of the source tiles. Default: 'terrarium' */
+  encoding?: TerrainEncoding;
+  /** Resampling from source to output pixels. Default: 'nearest' */
+  resampling?: ResamplingMethod;
+  /**
+   * Deepest zoom level the source provides. Deeper tiles are cut from their
+   * ancestor at this zoom and upsampled. Default: no limit
+   */
+  maxSourceZoom?: number;
+  /**
+   * Zoom ranges built from deeper, downsampled source tiles instead of the
+   * source tile at the same zoom. The first matching rule applies. Default: none
+   */
+  underzoom?: UnderzoomRule[];
+  /**
+   * Memory budget in bytes of the cache of decoded source tiles, shared by
+   * all requests to the fetcher; 0 disables it. Default: DEFAULT_TILE_CACHE_BYTES
+   */
+  cacheBytes?: number;
+  /** Timeout, retry and circuit breaker settings of URL template sources */
+  upstream?: UpstreamOptions;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -69,28 +120,89 @@ export function tileToWgs84Bounds(
   return { minLon, minLat, maxLon, maxLat };
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// URL Tile Store
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Creates a store fetching tiles over HTTP from a URL template with {z}, {x}
+ * and {y} placeholders. Tiles answered with a client error such as 404 read as
+ * missing; failing upstreams throw an UpstreamError (see fetchUpstream).
+ */
+function createUrlTileStore(urlTemplate: string, options: UpstreamOptions): TileStore {
+  return {
+    getTile(z, x, y) {
+      const url = urlTemplate
+        .replace('{z}', String(z))
+        .replace('{x}', String(x))
+        .replace('{y}', String(y));
+
+      return fetchUpstream(url, options);
+    },
+  };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // WebP Tile Fetcher
 // ─────────────────────────────────────────────────────────────────────────────
 
-/** RGBA pixel data from a decoded tile */
-interface TilePixels {
-  data: Uint8Array;
+/**
+ * A source tile decoded to elevation, NaN for NoData sentinel pixels.
+ * Float32 holds Terrarium values exactly and terrain-rgb values to within
+ * 0.001 m, at half the memory of Float64.
+ */
+interface TileElevation {
+  data: Float32Array;
   width: number;
   height: number;
 }
 
 /**
- * Fetches Terrarium-encoded DEM tiles and converts to elevation grids.
+ * A block of source tiles at one zoom level, in row-major order.
+ * Tile (tx, ty) is at index (ty - minY) * cols + (tx - minX).
+ */
+interface TileNeighborhood {
+  tiles: (TileElevation | null)[];
+  minX: number;
+  minY: number;
+  cols: number;
+}
+
+/**
+ * Fetches RGB-encoded DEM tiles and converts to elevation grids.
+ *
+ * Terrarium encoding: elevation = (R * 256 + G + B / 256) - 32768
+ * MapBox terrain-rgb: elevation = (R * 256² + G * 256 + B) / 10 - 10000
  *
- * Terrarium encoding stores elevation in RGB channels:
- * elevation = (R * 256 + G + B / 256) - 32768
+ * Decoded source tiles are kept in an LRU cache, so neighbors shared by
+ * adjacent output tiles are fetched and decoded once while they stay cached.
+ * Concurrent requests for a tile that is not cached yet share one fetch.
  */
-export class TileFetcher {
+export class TileFetcher implements DemSource {
+  private readonly store: TileStore;
+  private readonly cache: LruCache<TileElevation>;
+  private readonly pending = new Map<string, Promise<TileElevation | null>>();
+  private readonly decode: ElevationDecoder;
+  private readonly resampling: ResamplingMethod;
+  private readonly maxSourceZoom: number;
+  private readonly underzoom: UnderzoomRule[];
+
+  /**
+   * @param source URL template with {z}, {x} and {y} placeholders, or a store
+   *   of encoded tiles
+   */
   constructor(
-    private readonly urlTemplate: string,
-    private readonly sourceTileSize: number = SOURCE_TILE_SIZE
-  ) {}
+    source: string | TileStore,
+    private readonly sourceTileSize: number = SOURCE_TILE_SIZE,
+    options: TileFetcherOptions = {}
+  ) {
+    this.store = typeof source === 'string' ? createUrlTileStore(source, options.upstream ?? {}) : source;
+    this.decode = getElevationDecoder(options.encoding ?? 'terrarium');
+    this.resampling = options.resampling ?? 'nearest';
+    this.maxSourceZoom = options.maxSourceZoom ?? Infinity;
+    this.underzoom = options.underzoom ?? [];
+    this.cache = new LruCache(options.cacheBytes ?? DEFAULT_TILE_CACHE_BYTES);
+  }
 
   /**
    * Fetches elevation grid for a tile with buffer.
@@ -99,222 +211,177 @@ export class TileFetcher {
    * context at tile edges. Without buffer, contours would be discontinuous at
    * tile boundaries.
    *
-   * Why 4-tile stitching: We use a 2×2 corner-aligned approach, fetching only
-   * the requested tile plus its right, bottom, and bottom-right neighbors.
-   * The sampling window is positioned at the corner where these 4 tiles meet,
-   * allowing us to get buffer pixels from all directions with only 4 tiles
-   * instead of 9.
+   * Buffer pixels are sampled from the neighboring source tiles on all four
+   * sides, so adjacent output tiles see identical data along their shared
+   * edges. Only the neighbors the buffer reaches into are fetched.
+   *
+   * Pixels of missing tiles (world edge or not in the store) and NoData
+   * sentinel pixels are NaN in the grid and marked in its NoData mask.
+   *
+   * @throws Error if the store fails to read a tile, e.g. an UpstreamError
+   *
+   * Beyond `maxSourceZoom`, the same window is cut from the ancestor tile at
+   * `maxSourceZoom` and upsampled by the resampling method, bilinear in place
+   * of nearest, which would turn contours into stair steps. In zoom ranges
+   * covered by an underzoom rule, it is assembled from the descendant tiles
+   * and downsampled by the rule's method instead.
    */
   async fetchTile(coord: TileCoord, bufferPx: number = 0): Promise<BufferedGrid> {
-    const { z, x, y } = coord;
-    const outputSize = TILE_SIZE + 2 * bufferPx;
+    const rule = this.underzoom.find((r) => coord.z >= r.minZoom && coord.z <= r.maxZoom);
+    const depth = rule ? Math.max(0, Math.min(rule.depth, MAX_UNDERZOOM_DEPTH)) : 0;
+    const sourceZoom = Math.min(coord.z + depth, this.maxSourceZoom);
+    const overzoom = coord.z > this.maxSourceZoom;
+    const method = rule
+      ? rule.method
+      : overzoom && this.resampling === 'nearest'
+        ? 'bilinear'
+        : this.resampling;
+
+    const { data, width, height, noData } = await this.resampleTile(
+      coord,
+      sourceZoom,
+      TILE_SIZE,
+      bufferPx,
+      method
+    );
+    return noData
+      ? { grid: data, width, height, bufferPx, noData }
+      : { grid: data, width, height, bufferPx };
+  }
 
-    // Simple case: no buffer means single tile fetch
-    if (bufferPx === 0) {
-      const center = await this.fetchTilePixels(z, x, y);
-      if (!center) {
-        throw new Error(`Failed to fetch tile ${z}/${x}/${y}`);
-      }
-      return this.sampleElevationGrid(center, outputSize, bufferPx);
+  /**
+   * Fetches a single source tile decoded to elevation at its native resolution.
+   *
+   * Unlike fetchTile, no resampling to TILE_SIZE takes place, so point queries
+   * see the full detail of the source data. Beyond `maxSourceZoom`, the tile is
+   * bilinearly upsampled from its ancestor to the source tile size. NoData
+   * sentinel pixels are NaN and marked in the grid's mask; a missing tile is
+   * NoData throughout.
+   *
+   * @throws Error if the store fails to read the tile
+   */
+  async fetchSourceTile(coord: TileCoord): Promise<Grid> {
+    const { z, x, y } = coord;
+    if (z > this.maxSourceZoom) {
+      return this.resampleTile(coord, this.maxSourceZoom, this.sourceTileSize, 0, 'bilinear');
     }
 
-    // Buffer case: fetch 2x2 tile neighborhood (corner-aligned approach)
-    const tiles = await this.fetch2x2Neighborhood(z, x, y);
-    if (!tiles.center) {
-      throw new Error(`Failed to fetch center tile ${z}/${x}/${y}`);
+    const tile = await this.fetchTileElevation(z, x, y);
+    if (!tile) {
+      const size = this.sourceTileSize;
+      const data = new Float64Array(size * size).fill(NaN);
+      return { data, width: size, height: size, noData: new Uint8Array(size * size).fill(1) };
     }
 
-    const stitched = this.stitch2x2Tiles(tiles);
-    return this.sampleFrom2x2Stitched(stitched, outputSize, bufferPx);
+    const data = Float64Array.from(tile.data);
+    const noData = maskNaN(data);
+    return noData
+      ? { data, width: tile.width, height: tile.height, noData }
+      : { data, width: tile.width, height: tile.height };
+  }
+
+  /**
+   * Returns the hit and miss counters and the size of the decoded tile cache.
+   */
+  getCacheStats(): CacheStats {
+    return this.cache.getStats();
   }
 
   // ───────────────────────────────────────────────────────────────────────────
   // Tile Fetching
   // ───────────────────────────────────────────────────────────────────────────
 
-  private buildUrl(z: number, x: number, y: number): string {
-    return this.urlTemplate
-      .replace('{z}', String(z))
-      .replace('{x}', String(x))
-      .replace('{y}', String(y));
-  }
-
   /**
-   * Fetches and decodes a single tile's RGBA pixel data.
-   * Returns null for out-of-bounds or failed requests.
+   * Fetches a single tile and decodes it to elevation, or returns it from
+   * the cache. Columns wrap around the antimeridian, so buffers of edge tiles
+   * continue on the other side. Returns null for rows beyond the poles or
+   * missing tiles, which are not cached.
+   *
+   * Concurrent calls for the same tile share the in-flight request, and its
+   * result or error, until it settles.
    */
-  private async fetchTilePixels(z: number, x: number, y: number): Promise<TilePixels | null> {
+  private async fetchTileElevation(z: number, x: number, y: number): Promise<TileElevation | null> {
     const maxTile = Math.pow(2, z);
-    if (x < 0 || x >= maxTile || y < 0 || y >= maxTile) {
+    if (y < 0 || y >= maxTile) {
       return null;
     }
 
-    const response = await fetch(this.buildUrl(z, x, y));
-    if (!response.ok) {
-      return null;
+    const wrappedX = ((x % maxTile) + maxTile) % maxTile;
+    const key = `${z}/${wrappedX}/${y}`;
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
     }
 
-    const buffer = await response.arrayBuffer();
-    const image = PhotonImage.new_from_byteslice(new Uint8Array(buffer));
-    const pixels = {
-      data: image.get_raw_pixels(),
-      width: image.get_width(),
-      height: image.get_height(),
-    };
-    image.free();
-
-    return pixels;
+    let request = this.pending.get(key);
+    if (!request) {
+      request = this.loadTileElevation(key, z, wrappedX, y).finally(() =>
+        this.pending.delete(key)
+      );
+      this.pending.set(key, request);
+    }
+    return request;
   }
 
   /**
-   * Fetches all 9 tiles in a 3x3 neighborhood.
-   * Batched into three logical groups to respect Cloudflare's 6-connection limit.
+   * Fetches a tile from the store, decodes it and caches it under `key`.
    */
-  private async fetch3x3Neighborhood(z: number, x: number, y: number): Promise<{
-    center: TilePixels | null;
-    left: TilePixels | null;
-    right: TilePixels | null;
-    top: TilePixels | null;
-    bottom: TilePixels | null;
-    topLeft: TilePixels | null;
-    topRight: TilePixels | null;
-    bottomLeft: TilePixels | null;
-    bottomRight: TilePixels | null;
-  }> {
-    // Batch 1: center tile
-    const center = await this.fetchTilePixels(z, x, y);
-
-    // Batch 2: cardinal directions (4 tiles)
-    const [left, right, top, bottom] = await Promise.all([
-      this.fetchTilePixels(z, x - 1, y),
-      this.fetchTilePixels(z, x + 1, y),
-      this.fetchTilePixels(z, x, y - 1),
-      this.fetchTilePixels(z, x, y + 1),
-    ]);
-
-    // Batch 3: corners (4 tiles)
-    const [topLeft, topRight, bottomLeft, bottomRight] = await Promise.all([
-      this.fetchTilePixels(z, x - 1, y - 1),
-      this.fetchTilePixels(z, x + 1, y - 1),
-      this.fetchTilePixels(z, x - 1, y + 1),
-      this.fetchTilePixels(z, x + 1, y + 1),
-    ]);
-
-    return { center, left, right, top, bottom, topLeft, topRight, bottomLeft, bottomRight };
-  }
+  private async loadTileElevation(
+    key: string,
+    z: number,
+    x: number,
+    y: number
+  ): Promise<TileElevation | null> {
+    const buffer = await this.store.getTile(z, x, y);
+    if (!buffer) {
+      return null;
+    }
 
-  /**
-   * Fetches 4 tiles in a 2×2 neighborhood (corner-aligned approach).
-   *
-   * Layout:  [center]  [right]
-   *          [bottom]  [bottomRight]
-   *
-   * The sampling window is centered at the corner where these 4 tiles meet,
-   * providing buffer pixels from all directions with only 4 tile fetches.
-   */
-  private async fetch2x2Neighborhood(z: number, x: number, y: number): Promise<{
-    center: TilePixels | null;
-    right: TilePixels | null;
-    bottom: TilePixels | null;
-    bottomRight: TilePixels | null;
-  }> {
-    // All 4 tiles fetched in parallel (single Promise.all batch)
-    const [center, right, bottom, bottomRight] = await Promise.all([
-      this.fetchTilePixels(z, x, y),
-      this.fetchTilePixels(z, x + 1, y),
-      this.fetchTilePixels(z, x, y + 1),
-      this.fetchTilePixels(z, x + 1, y + 1),
-    ]);
-    return { center, right, bottom, bottomRight };
-  }
+    const image = PhotonImage.new_from_byteslice(new Uint8Array(buffer));
+    const pixels = image.get_raw_pixels();
+    const width = image.get_width();
+    const height = image.get_height();
+    image.free();
 
-  // ───────────────────────────────────────────────────────────────────────────
-  // Tile Stitching
-  // ───────────────────────────────────────────────────────────────────────────
+    const data = new Float32Array(width * height);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = this.decodePixel(pixels, i * 4);
+    }
 
-  /**
-   * Stitches 9 tiles into a 3x3 canvas of RGBA pixels.
-   *
-   * Layout:  [topLeft]    [top]    [topRight]
-   *          [left]     [center]   [right]
-   *          [bottomLeft][bottom] [bottomRight]
-   */
-  private stitchTiles(tiles: {
-    center: TilePixels | null;
-    left: TilePixels | null;
-    right: TilePixels | null;
-    top: TilePixels | null;
-    bottom: TilePixels | null;
-    topLeft: TilePixels | null;
-    topRight: TilePixels | null;
-    bottomLeft: TilePixels | null;
-    bottomRight: TilePixels | null;
-  }): { data: Uint8Array; size: number } {
-    const s = this.sourceTileSize;
-    const stitchedSize = s * 3;
-    const stitched = new Uint8Array(stitchedSize * stitchedSize * 4);
-
-    // Copy each tile to its position in the 3x3 grid
-    this.copyTileToCanvas(tiles.topLeft, stitched, stitchedSize, 0, 0);
-    this.copyTileToCanvas(tiles.top, stitched, stitchedSize, s, 0);
-    this.copyTileToCanvas(tiles.topRight, stitched, stitchedSize, 2 * s, 0);
-    this.copyTileToCanvas(tiles.left, stitched, stitchedSize, 0, s);
-    this.copyTileToCanvas(tiles.center, stitched, stitchedSize, s, s);
-    this.copyTileToCanvas(tiles.right, stitched, stitchedSize, 2 * s, s);
-    this.copyTileToCanvas(tiles.bottomLeft, stitched, stitchedSize, 0, 2 * s);
-    this.copyTileToCanvas(tiles.bottom, stitched, stitchedSize, s, 2 * s);
-    this.copyTileToCanvas(tiles.bottomRight, stitched, stitchedSize, 2 * s, 2 * s);
-
-    return { data: stitched, size: stitchedSize };
+    const tile = { data, width, height };
+    this.cache.set(key, tile, data.byteLength);
+    return tile;
   }
 
   /**
-   * Stitches 4 tiles into a 2×2 canvas of RGBA pixels.
+   * Fetches every tile at `zoom` overlapped by a window of global source
+   * pixels.
    *
-   * Layout:  [center]  [right]
-   *          [bottom]  [bottomRight]
+   * All tiles are requested in a single Promise.all batch; the runtime queues
+   * requests beyond its connection limit.
    */
-  private stitch2x2Tiles(tiles: {
-    center: TilePixels | null;
-    right: TilePixels | null;
-    bottom: TilePixels | null;
-    bottomRight: TilePixels | null;
-  }): { data: Uint8Array; size: number } {
+  private async fetchNeighborhood(
+    zoom: number,
+    left: number,
+    top: number,
+    width: number,
+    height: number
+  ): Promise<TileNeighborhood> {
     const s = this.sourceTileSize;
-    const stitchedSize = s * 2; // 1024 (vs 1536 for 3×3)
-    const stitched = new Uint8Array(stitchedSize * stitchedSize * 4);
-
-    // Copy each tile to its position in the 2×2 grid
-    this.copyTileToCanvas(tiles.center, stitched, stitchedSize, 0, 0);
-    this.copyTileToCanvas(tiles.right, stitched, stitchedSize, s, 0);
-    this.copyTileToCanvas(tiles.bottom, stitched, stitchedSize, 0, s);
-    this.copyTileToCanvas(tiles.bottomRight, stitched, stitchedSize, s, s);
-
-    return { data: stitched, size: stitchedSize };
-  }
-
-  /**
-   * Copies tile pixels to a position in the stitched canvas.
-   */
-  private copyTileToCanvas(
-    tile: TilePixels | null,
-    canvas: Uint8Array,
-    canvasSize: number,
-    offsetX: number,
-    offsetY: number
-  ): void {
-    if (!tile) return;
-
-    for (let ty = 0; ty < tile.height; ty++) {
-      for (let tx = 0; tx < tile.width; tx++) {
-        const srcIdx = (ty * tile.width + tx) * 4;
-        const dstIdx = ((offsetY + ty) * canvasSize + (offsetX + tx)) * 4;
-        canvas[dstIdx] = tile.data[srcIdx];
-        canvas[dstIdx + 1] = tile.data[srcIdx + 1];
-        canvas[dstIdx + 2] = tile.data[srcIdx + 2];
-        canvas[dstIdx + 3] = tile.data[srcIdx + 3];
+    const minX = Math.floor(left / s);
+    const minY = Math.floor(top / s);
+    const cols = Math.floor((left + width - 1) / s) - minX + 1;
+    const rows = Math.floor((top + height - 1) / s) - minY + 1;
+
+    const requests: Promise<TileElevation | null>[] = [];
+    for (let ty = minY; ty < minY + rows; ty++) {
+      for (let tx = minX; tx < minX + cols; tx++) {
+        requests.push(this.fetchTileElevation(zoom, tx, ty));
       }
     }
+    const tiles = await Promise.all(requests);
+
+    return { tiles, minX, minY, cols };
   }
 
   // ───────────────────────────────────────────────────────────────────────────
@@ -322,134 +389,96 @@ export class TileFetcher {
   // ───────────────────────────────────────────────────────────────────────────
 
   /**
-   * Samples elevation values from a stitched 3x3 canvas.
-   *
-   * Samples the center region plus buffer from the stitched canvas,
-   * converting Terrarium-encoded RGB to elevation values.
+   * Copies a window of global source pixels into an elevation grid, reading
+   * from whichever tile of the neighborhood covers each pixel. Pixels of
+   * missing tiles are NaN.
    */
-  private sampleFromStitched(
-    stitched: { data: Uint8Array; size: number },
-    outputSize: number,
-    bufferPx: number
-  ): BufferedGrid {
-    const { data, size: stitchedSize } = stitched;
-    const scale = this.sourceTileSize / TILE_SIZE;
+  private decodeWindow(
+    neighborhood: TileNeighborhood,
+    left: number,
+    top: number,
+    width: number,
+    height: number
+  ): Grid {
     const s = this.sourceTileSize;
-    const grid = new Float64Array(outputSize * outputSize);
-
-    for (let oy = 0; oy < outputSize; oy++) {
-      for (let ox = 0; ox < outputSize; ox++) {
-        // Map output coords to tile-relative coords (with buffer offset)
-        const tileX = ox - bufferPx;
-        const tileY = oy - bufferPx;
-
-        // Scale to source resolution and offset to center tile position
-        let srcX = s + Math.floor((tileX + 0.5) * scale);
-        let srcY = s + Math.floor((tileY + 0.5) * scale);
-
-        // Clamp to stitched canvas bounds
-        srcX = Math.max(0, Math.min(stitchedSize - 1, srcX));
-        srcY = Math.max(0, Math.min(stitchedSize - 1, srcY));
-
-        const srcIdx = (srcY * stitchedSize + srcX) * 4;
-        grid[oy * outputSize + ox] = terrariumToElevation(
-          data[srcIdx],
-          data[srcIdx + 1],
-          data[srcIdx + 2]
-        );
+    const { minX, minY, cols } = neighborhood;
+    const data = new Float64Array(width * height);
+
+    for (let wy = 0; wy < height; wy++) {
+      const srcY = top + wy;
+      const ty = Math.floor(srcY / s);
+
+      for (let wx = 0; wx < width; wx++) {
+        const srcX = left + wx;
+        const tx = Math.floor(srcX / s);
+        const tile = neighborhood.tiles[(ty - minY) * cols + (tx - minX)];
+        data[wy * width + wx] = tile
+          ? tile.data[(srcY - ty * s) * tile.width + (srcX - tx * s)]
+          : NaN;
       }
     }
 
-    return { grid, width: outputSize, height: outputSize, bufferPx };
+    return { data, width, height };
   }
 
   /**
-   * Samples elevation values from a stitched 2×2 canvas (centered on tile C).
-   *
-   * Layout:  [C]  [R]      C = center tile (requested)
-   *          [B]  [BR]     R = right, B = bottom, BR = bottom-right
-   *
-   * Geographic alignment: The center tile C is at canvas position (0,0).
-   * Output coordinates map directly to source coordinates with scale factor.
-   * This provides buffer on RIGHT and BOTTOM edges from tiles R and B.
-   * LEFT and TOP buffer coordinates are clamped to tile C's edge.
-   *
-   * Coordinate mapping (with scale=2):
-   *   - Output (0, 0) → Source (1, 1) in C
-   *   - Output (128, 128) → Source (257, 257) in C (center of C)
-   *   - Output (255, 255) → Source (511, 511) in C (edge of C)
-   *   - Output (263, 263) → Source (527, 527) in BR (buffer region)
-   *   - Output (-8, -8) → Source (0, 0) clamped (no left/top neighbor)
+   * Resamples the source data under a tile to a square grid of
+   * `tileSize + 2 * bufferPx` pixels, reading source tiles at `sourceZoom`:
+   * the tile's ancestor when shallower, its descendants when deeper.
    */
-  private sampleFrom2x2Stitched(
-    stitched: { data: Uint8Array; size: number },
-    outputSize: number,
-    bufferPx: number
-  ): BufferedGrid {
-    const { data, size: stitchedSize } = stitched;
-    const scale = this.sourceTileSize / TILE_SIZE;
-    const grid = new Float64Array(outputSize * outputSize);
-
+  private async resampleTile(
+    coord: TileCoord,
+    sourceZoom: number,
+    tileSize: number,
+    bufferPx: number,
+    method: ResamplingMethod
+  ): Promise<Grid> {
+    const { z, x, y } = coord;
+    const s = this.sourceTileSize;
+    const factor = Math.pow(2, z - sourceZoom);
+
+    // Output pixel size and tile origin in source pixels at the source zoom
+    const scale = s / tileSize / factor;
+    const originX = (x * s) / factor;
+    const originY = (y * s) / factor;
+    const outputSize = tileSize + 2 * bufferPx;
+    const margin = getResamplingMargin(method);
+
+    // Source pixel window read by the resampling kernels, in global pixels
+    const start = bufferPx * scale;
+    const extent = outputSize * scale;
+    const left = Math.floor(originX - start) - margin;
+    const top = Math.floor(originY - start) - margin;
+    const width = Math.ceil(originX - start + extent) + margin - left;
+    const height = Math.ceil(originY - start + extent) + margin - top;
+
+    const neighborhood = await this.fetchNeighborhood(sourceZoom, left, top, width, height);
+    const source = this.decodeWindow(neighborhood, left, top, width, height);
+
+    // Resample in elevation space; footprints are offset into the window
+    const data = new Float64Array(outputSize * outputSize);
     for (let oy = 0; oy < outputSize; oy++) {
+      const cellTop = originY + (oy - bufferPx) * scale - top;
       for (let ox = 0; ox < outputSize; ox++) {
-        // Map output coords to tile-relative coords (with buffer offset)
-        const tileX = ox - bufferPx;
-        const tileY = oy - bufferPx;
-
-        // Sample centered on tile C (at canvas origin)
-        // No offset needed - tile C starts at (0, 0)
-        let srcX = Math.floor((tileX + 0.5) * scale);
-        let srcY = Math.floor((tileY + 0.5) * scale);
-
-        // Clamp to stitched canvas bounds
-        // Left/top buffer will clamp to 0 (edge of C)
-        // Right/bottom buffer extends into R/B/BR tiles
-        srcX = Math.max(0, Math.min(stitchedSize - 1, srcX));
-        srcY = Math.max(0, Math.min(stitchedSize - 1, srcY));
-
-        const srcIdx = (srcY * stitchedSize + srcX) * 4;
-        grid[oy * outputSize + ox] = terrariumToElevation(
-          data[srcIdx],
-          data[srcIdx + 1],
-          data[srcIdx + 2]
-        );
+        const cellLeft = originX + (ox - bufferPx) * scale - left;
+        data[oy * outputSize + ox] = resampleCell(source, cellLeft, cellTop, scale, method);
       }
     }
 
-    return { grid, width: outputSize, height: outputSize, bufferPx };
+    const noData = maskNaN(data);
+    return noData
+      ? { data, width: outputSize, height: outputSize, noData }
+      : { data, width: outputSize, height: outputSize };
   }
 
   /**
-   * Samples elevation values from a single tile (no-buffer case).
+   * Decodes the RGBA pixel at byte offset `i` to elevation, or NaN for NoData
+   * sentinel pixels.
    */
-  private sampleElevationGrid(
-    tile: TilePixels,
-    outputSize: number,
-    bufferPx: number
-  ): BufferedGrid {
-    const scale = this.sourceTileSize / TILE_SIZE;
-    const grid = new Float64Array(outputSize * outputSize);
-
-    for (let y = 0; y < outputSize; y++) {
-      for (let x = 0; x < outputSize; x++) {
-        const tileX = x - bufferPx;
-        const tileY = y - bufferPx;
-
-        let srcX = Math.floor((tileX + 0.5) * scale);
-        let srcY = Math.floor((tileY + 0.5) * scale);
-
-        srcX = Math.max(0, Math.min(tile.width - 1, srcX));
-        srcY = Math.max(0, Math.min(tile.height - 1, srcY));
-
-        const srcIdx = (srcY * tile.width + srcX) * 4;
-        grid[y * outputSize + x] = terrariumToElevation(
-          tile.data[srcIdx],
-          tile.data[srcIdx + 1],
-          tile.data[srcIdx + 2]
-        );
-      }
+  private decodePixel(pixels: Uint8Array, i: number): number {
+    if (isNoDataPixel(pixels[i], pixels[i + 1], pixels[i + 2], pixels[i + 3])) {
+      return NaN;
     }
-
-    return { grid, width: outputSize, height: outputSize, bufferPx };
+    return this.decode(pixels[i], pixels[i + 1], pixels[i + 2]);
   }
 }
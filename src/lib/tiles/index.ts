@@ -6,9 +6,17 @@
 // Types
 // ─────────────────────────────────────────────────────────────────────────────
 
-export type { TileCoord, BufferedGrid } from './types';
+export type { TileCoord, BufferedGrid, ContourUnit, DemSource, TileStore } from './types';
 export type { TransformConfig } from './coordinate-transform';
 export type { EncoderOptions } from './encoder';
+export type { TileFetcherOptions, UnderzoomRule } from './fetcher';
+export type { CacheStats } from './lru-cache';
+export type { UpstreamOptions } from './upstream';
+export type { CogSourceOptions } from './cog-source';
+export type { CompositeLayer, CompositeSourceOptions } from './composite-source';
+export type { TileJson, VectorLayer } from './tilejson';
+export type { LngLat, ElevationSample } from './elevation-sampler';
+export type { ProfilePoint, ProfileStats, ElevationProfile } from './profile';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Constants
@@ -17,6 +25,21 @@ export type { EncoderOptions } from './encoder';
 export {
   MVT_EXTENT,
   TILE_SIZE,
+  MIN_ZOOM,
+  MAX_ZOOM,
+  MAX_UNDERZOOM_DEPTH,
+  DEFAULT_TILE_CACHE_BYTES,
+  WORLD_BOUNDS,
+  DEFAULT_ELEVATION_ZOOM,
+  MAX_ELEVATION_POINTS,
+  DEFAULT_PROFILE_SPACING,
+  MAX_PROFILE_SAMPLES,
+  MAX_ELEVATION_TILES,
+  ELEVATION_FETCH_BATCH,
+  CONTOUR_LAYER,
+  HILLSHADE_LAYER,
+  SLOPE_LAYER,
+  ASPECT_LAYER,
   BUFFER_PX,
   DEFAULT_TILE_URL,
   MIN_ELEVATION,
@@ -25,8 +48,20 @@ export {
   MAX_LUMINANCE,
   DEFAULT_SUN_ALTITUDE,
   DEFAULT_SUN_AZIMUTH,
+  DEFAULT_SLOPE_BREAKS,
+  MAX_SLOPE,
   getContourInterval,
+  getContourIntervalFeet,
+  METERS_PER_FOOT,
+  toMeters,
+  fromMeters,
+  getMaxContourLevels,
+  CONTOUR_LEVEL_FACTOR,
+  DEFAULT_INDEX_EVERY,
   getHillshadeInterval,
+  MIN_HILLSHADE_BANDS,
+  MAX_HILLSHADE_BANDS,
+  bandsToHillshadeInterval,
 } from './types';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -34,6 +69,33 @@ export {
 // ─────────────────────────────────────────────────────────────────────────────
 
 export { TileFetcher } from './fetcher';
+export { LruCache } from './lru-cache';
+export { fetchUpstream, UpstreamError, DEFAULT_UPSTREAM_TIMEOUT_MS } from './upstream';
+export { CogSource } from './cog-source';
+export { PmtilesStore } from './pmtiles-store';
+export { MbtilesStore } from './mbtiles-store';
+export { CompositeSource } from './composite-source';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Elevation Sampling
+// ─────────────────────────────────────────────────────────────────────────────
+
+export {
+  sampleElevations,
+  lngLatToTilePosition,
+  validateElevationQuery,
+} from './elevation-sampler';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Elevation Profiles
+// ─────────────────────────────────────────────────────────────────────────────
+
+export {
+  computeProfile,
+  densifyLine,
+  countProfileSamples,
+  computeProfileStats,
+} from './profile';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Coordinate Transformation
@@ -50,3 +112,9 @@ export {
 // ─────────────────────────────────────────────────────────────────────────────
 
 export { encodeFeatures, getMvtHeaders } from './encoder';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TileJSON
+// ─────────────────────────────────────────────────────────────────────────────
+
+export { buildTileJson } from './tilejson';
@@ -0,0 +1,94 @@
+/**
+ * Size-bounded least-recently-used cache.
+ */
+
+/**
+ * Cache usage counters.
+ */
+export interface CacheStats {
+  /** Lookups answered from the cache */
+  hits: number;
+  /** Lookups not in the cache */
+  misses: number;
+  /** Entries currently cached */
+  entries: number;
+  /** Total size of the cached entries in bytes */
+  bytes: number;
+  /** Size limit in bytes */
+  maxBytes: number;
+}
+
+/**
+ * Caches values up to a total size in bytes, evicting the least recently used
+ * entries first.
+ *
+ * @example
+ * const cache = new LruCache<Float32Array>(32 * 1024 * 1024);
+ * cache.set('12/2132/1441', data, data.byteLength);
+ * cache.get('12/2132/1441'); // data, now the most recently used entry
+ */
+export class LruCache<V> {
+  // Map iteration follows insertion order, so the first key is the least recently used
+  private readonly entries = new Map<string, { value: V; bytes: number }>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * @param maxBytes Total size limit; 0 disables caching
+   */
+  constructor(private readonly maxBytes: number) {}
+
+  /**
+   * Returns a cached value and marks it as most recently used.
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Caches a value of the given size, evicting least recently used entries
+   * to stay within the limit. Values larger than the limit are not cached.
+   */
+  set(key: string, value: V, bytes: number): void {
+    this.delete(key);
+    if (bytes > this.maxBytes) {
+      return;
+    }
+
+    this.entries.set(key, { value, bytes });
+    this.bytes += bytes;
+    for (const [oldest, entry] of this.entries) {
+      if (this.bytes <= this.maxBytes) break;
+      this.entries.delete(oldest);
+      this.bytes -= entry.bytes;
+    }
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.bytes -= entry.bytes;
+    }
+  }
+
+  getStats(): CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+    };
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * MBTiles DEM tile store.
+ * Reads encoded DEM tiles out of an MBTiles SQLite file, for offline use from
+ * Node scripts and tests.
+ */
+
+import initSqlJs, { type Database, type SqlJsConfig } from 'sql.js';
+import type { TileStore } from './types';
+
+/** MBTiles `format` metadata values TileFetcher can decode */
+const DEM_TILE_FORMATS = ['png', 'webp'];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// MBTiles Store
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Reads DEM tiles from an MBTiles file.
+ *
+ * The file is opened in memory with sql.js (SQLite compiled to WebAssembly).
+ * MBTiles rows are numbered bottom-up (TMS), so the XYZ row of each request is
+ * flipped before the lookup.
+ *
+ * @example
+ * const file = await readFile('terrain.mbtiles');
+ * const fetcher = new TileFetcher(new MbtilesStore(file), 256);
+ * const tile = await fetcher.fetchTile({ z: 12, x: 2132, y: 1442 }, 8);
+ */
+export class MbtilesStore implements TileStore {
+  private database: Promise<Database> | null = null;
+
+  /**
+   * @param file Contents of the MBTiles file
+   * @param config sql.js options, e.g. `locateFile` when the WebAssembly
+   *   binary is not next to the sql.js module
+   */
+  constructor(
+    private readonly file: ArrayBuffer | Uint8Array,
+    private readonly config?: SqlJsConfig
+  ) {}
+
+  /**
+   * @throws Error if the file is not an MBTiles file of PNG or WebP tiles
+   */
+  async getTile(z: number, x: number, y: number): Promise<ArrayBuffer | null> {
+    const database = await this.getDatabase();
+    const statement = database.prepare(
+      'SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?'
+    );
+
+    try {
+      statement.bind([z, x, Math.pow(2, z) - 1 - y]);
+      if (!statement.step()) {
+        return null;
+      }
+      const [data] = statement.get();
+      return data instanceof Uint8Array
+        ? data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+        : null;
+    } finally {
+      statement.free();
+    }
+  }
+
+  /**
+   * Reads the name/value pairs of the metadata table.
+   */
+  async getMetadata(): Promise<Record<string, string>> {
+    const database = await this.getDatabase();
+    const [result] = database.exec('SELECT name, value FROM metadata');
+    return Object.fromEntries((result?.values ?? []).map(([name, value]) => [name, String(value)]));
+  }
+
+  /**
+   * Releases the in-memory database. The store must not be used afterwards.
+   */
+  async close(): Promise<void> {
+    if (this.database) {
+      (await this.database).close();
+      this.database = null;
+    }
+  }
+
+  /**
+   * Opens the database and validates its tile format once.
+   */
+  private getDatabase(): Promise<Database> {
+    this.database ??= this.openDatabase().catch((error) => {
+      // Allow a later request to retry after a failed open
+      this.database = null;
+      throw error;
+    });
+    return this.database;
+  }
+
+  private async openDatabase(): Promise<Database> {
+    const SQL = await initSqlJs(this.config);
+    const database = new SQL.Database(
+      this.file instanceof Uint8Array ? this.file : new Uint8Array(this.file)
+    );
+
+    try {
+      const [result] = database.exec("SELECT value FROM metadata WHERE name = 'format'");
+      const format = result?.values[0]?.[0];
+      if (typeof format === 'string' && !DEM_TILE_FORMATS.includes(format.toLowerCase())) {
+        throw new Error(`Unsupported MBTiles format ${format}; DEM tiles must be PNG or WebP`);
+      }
+    } catch (error) {
+      database.close();
+      throw error;
+    }
+    return database;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * PMTiles DEM tile store.
+ * Reads encoded DEM tiles out of a PMTiles v3 archive, so a terrain pyramid
+ * can be hosted as a single file next to the worker.
+ */
+
+import { PMTiles, TileType, type Source, type Header } from 'pmtiles';
+import type { TileStore } from './types';
+import { type UpstreamOptions, fetchUpstream } from './upstream';
+
+/** Tile types TileFetcher can decode */
+const DEM_TILE_TYPES = [TileType.Png, TileType.Webp];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PMTiles Store
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Reads DEM tiles from a PMTiles archive.
+ *
+ * Only the header, the directories along the way to a tile and the tile
+ * itself are read, using range requests for remote archives; directories are
+ * cached. Tiles outside the archive's zoom range or not in its directories
+ * read as missing tiles. Range requests are made with fetchUpstream, so
+ * failing remote archives throw an UpstreamError.
+ *
+ * @example
+ * const fetcher = new TileFetcher(new PmtilesStore('https://example.com/terrain.pmtiles'));
+ * const tile = await fetcher.fetchTile({ z: 12, x: 2132, y: 1442 }, 8);
+ */
+export class PmtilesStore implements TileStore {
+  private readonly archive: PMTiles;
+  private header: Promise<Header> | null = null;
+
+  /**
+   * @param source URL of the archive, its contents, or a pmtiles Source
+   *   reading byte ranges from elsewhere (e.g. an object store)
+   * @param upstream Timeouts and retries of range requests to a URL
+   */
+  constructor(source: string | ArrayBuffer | Source, upstream: UpstreamOptions = {}) {
+    if (typeof source === 'string') {
+      this.archive = new PMTiles(createUpstreamSource(source, upstream));
+    } else if (source instanceof ArrayBuffer) {
+      this.archive = new PMTiles(createBufferSource(source));
+    } else {
+      this.archive = new PMTiles(source);
+    }
+  }
+
+  /**
+   * @throws Error if the archive is invalid or holds tiles other than PNG or WebP
+   */
+  async getTile(z: number, x: number, y: number): Promise<ArrayBuffer | null> {
+    await this.getHeader();
+    const tile = await this.archive.getZxy(z, x, y);
+    return tile ? tile.data : null;
+  }
+
+  /**
+   * Reads and validates the archive header once.
+   */
+  private getHeader(): Promise<Header> {
+    this.header ??= this.archive
+      .getHeader()
+      .then((header) => {
+        if (!DEM_TILE_TYPES.includes(header.tileType)) {
+          throw new Error(
+            `Unsupported PMTiles tile type ${TileType[header.tileType] ?? header.tileType}; DEM tiles must be PNG or WebP`
+          );
+        }
+        return header;
+      })
+      .catch((error) => {
+        // Allow a later request to retry after a failed read
+        this.header = null;
+        throw error;
+      });
+    return this.header;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sources
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Creates a source reading byte ranges of a remote archive with HTTP range
+ * requests.
+ *
+ * @throws UpstreamError from getBytes if the request fails
+ * @throws Error from getBytes if the archive is missing or the server ignores
+ *   the range
+ */
+function createUpstreamSource(url: string, options: UpstreamOptions): Source {
+  return {
+    getKey: () => url,
+    getBytes: async (offset, length) => {
+      const data = await fetchUpstream(url, options, { offset, length });
+      if (!data) {
+        throw new Error(`PMTiles archive ${url} not found`);
+      }
+      if (data.byteLength > length) {
+        throw new Error(`${url} does not support HTTP range requests`);
+      }
+      return { data };
+    },
+  };
+}
+
+/**
+ * Creates a source reading byte ranges from an archive in memory, such as a
+ * local file read by a CLI or a test.
+ */
+function createBufferSource(buffer: ArrayBuffer): Source {
+  return {
+    getKey: () => 'buffer',
+    getBytes: async (offset, length) => ({ data: buffer.slice(offset, offset + length) }),
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Elevation profiles along polylines.
+ *
+ * Densifies a line to a regular sample spacing, samples the DEM at every
+ * point (fetching each covering tile once), and summarizes the climb.
+ */
+
+import type { Position } from 'geojson';
+import type { DemSource } from './types';
+import { type LngLat, sampleElevations } from './elevation-sampler';
+
+/** Mean Earth radius in meters, for great-circle distances */
+const MEAN_EARTH_RADIUS = 6371008.8;
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * A point along a densified line.
+ */
+export interface ProfilePoint extends LngLat {
+  /** Distance from the start of the line in meters */
+  distance: number;
+}
+
+/**
+ * Summary statistics of an elevation profile.
+ */
+export interface ProfileStats {
+  /** Length of the line in meters */
+  distance: number;
+  /** Sum of elevation gains in meters */
+  ascent: number;
+  /** Sum of elevation losses in meters (positive) */
+  descent: number;
+  /** Lowest sampled elevation in meters */
+  min: number;
+  /** Highest sampled elevation in meters */
+  max: number;
+  /** Steepest gradient between consecutive samples, in percent (uphill or downhill) */
+  maxGradient: number;
+}
+
+/**
+ * An elevation profile.
+ */
+export interface ElevationProfile {
+  /**
+   * [distance, elevation] pairs in meters, from the start of the line.
+   * Elevation is NaN where the source has no data.
+   */
+  profile: [number, number][];
+  stats: ProfileStats;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Computes the elevation profile of a line.
+ *
+ * @param fetcher Source of DEM tiles
+ * @param coordinates Line vertices as [lon, lat] positions
+ * @param spacing Maximum distance between samples in meters
+ * @param zoom Source zoom level to sample
+ *
+ * @example
+ * const { profile, stats } = await computeProfile(fetcher, line.coordinates, 25, 12);
+ */
+export async function computeProfile(
+  fetcher: Pick<DemSource, 'fetchSourceTile'>,
+  coordinates: Position[],
+  spacing: number,
+  zoom: number
+): Promise<ElevationProfile> {
+  const points = densifyLine(coordinates, spacing);
+  const samples = await sampleElevations(fetcher, points, zoom);
+
+  const profile = points.map((point, i): [number, number] => [
+    point.distance,
+    samples[i].elevation,
+  ]);
+
+  return { profile, stats: computeProfileStats(profile) };
+}
+
+/**
+ * Inserts points along a line so no two consecutive points are further
+ * apart than `spacing`. Original vertices are kept, so the profile follows
+ * the line exactly. Segments take the shorter way around the globe, crossing
+ * the antimeridian when it is shorter, like their great-circle length.
+ *
+ * @throws Error if the line has fewer than 2 positions or spacing is not positive
+ */
+export function densifyLine(coordinates: Position[], spacing: number): ProfilePoint[] {
+  if (coordinates.length < 2) {
+    throw new Error('Line must have at least 2 positions');
+  }
+  if (!(spacing > 0)) {
+    throw new Error('Spacing must be positive');
+  }
+
+  const [startLon, startLat] = coordinates[0];
+  const points: ProfilePoint[] = [{ lon: startLon, lat: startLat, distance: 0 }];
+  let distance = 0;
+
+  for (let i = 1; i < coordinates.length; i++) {
+    const [lon0, lat0] = coordinates[i - 1];
+    const [lon1, lat1] = coordinates[i];
+    const length = haversineDistance(lon0, lat0, lon1, lat1);
+    const steps = Math.max(1, Math.ceil(length / spacing));
+    const dLon = unwrapLongitudeDelta(lon1 - lon0);
+
+    // Linear interpolation in degrees is accurate enough at sample spacings
+    for (let step = 1; step <= steps; step++) {
+      const t = step / steps;
+      points.push({
+        lon: step === steps ? lon1 : wrapLongitude(lon0 + dLon * t),
+        lat: lat0 + (lat1 - lat0) * t,
+        distance: distance + length * t,
+      });
+    }
+    distance += length;
+  }
+
+  return points;
+}
+
+/**
+ * Counts the samples {@link densifyLine} would produce, without allocating them.
+ */
+export function countProfileSamples(coordinates: Position[], spacing: number): number {
+  let count = 1;
+  for (let i = 1; i < coordinates.length; i++) {
+    const [lon0, lat0] = coordinates[i - 1];
+    const [lon1, lat1] = coordinates[i];
+    count += Math.max(1, Math.ceil(haversineDistance(lon0, lat0, lon1, lat1) / spacing));
+  }
+  return count;
+}
+
+/**
+ * Summarizes [distance, elevation] pairs.
+ * NoData samples (NaN elevation) are left out; gradients bridge over them.
+ */
+export function computeProfileStats(profile: [number, number][]): ProfileStats {
+  let ascent = 0;
+  let descent = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  let maxGradient = 0;
+  let previous: [number, number] | null = null;
+
+  for (const sample of profile) {
+    const [distance, elevation] = sample;
+    if (Number.isNaN(elevation)) continue;
+
+    min = Math.min(min, elevation);
+    max = Math.max(max, elevation);
+
+    if (previous) {
+      const [prevDistance, prevElevation] = previous;
+      const rise = elevation - prevElevation;
+      if (rise > 0) {
+        ascent += rise;
+      } else {
+        descent -= rise;
+      }
+
+      const run = distance - prevDistance;
+      if (run > 0) {
+        maxGradient = Math.max(maxGradient, (Math.abs(rise) / run) * 100);
+      }
+    }
+    previous = sample;
+  }
+
+  return {
+    distance: profile.length > 0 ? profile[profile.length - 1][0] : 0,
+    ascent,
+    descent,
+    min,
+    max,
+    maxGradient,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Shortens a longitude difference to the equivalent one within ±180°.
+ */
+function unwrapLongitudeDelta(dLon: number): number {
+  if (dLon > 180) return dLon - 360;
+  if (dLon < -180) return dLon + 360;
+  return dLon;
+}
+
+/**
+ * Brings a longitude within ±360° back to [-180, 180].
+ */
+function wrapLongitude(lon: number): number {
+  if (lon > 180) return lon - 360;
+  if (lon < -180) return lon + 360;
+  return lon;
+}
+
+/**
+ * Great-circle distance between two positions in meters.
+ */
+function haversineDistance(lon0: number, lat0: number, lon1: number, lat1: number): number {
+  const dLat = (lat1 - lat0) * DEG_TO_RAD;
+  const dLon = (lon1 - lon0) * DEG_TO_RAD;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat0 * DEG_TO_RAD) * Math.cos(lat1 * DEG_TO_RAD) * Math.sin(dLon / 2) ** 2;
+  return 2 * MEAN_EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
@@ -0,0 +1,111 @@
+/**
+ * TileJSON document describing the terrain tile source.
+ *
+ * Lets MapLibre and other clients discover the tile URL, zoom range and
+ * layer schema instead of hard-coding them.
+ *
+ * @see https://github.com/mapbox/tilejson-spec/tree/master/3.0.0
+ */
+
+import {
+  MIN_ZOOM,
+  MAX_ZOOM,
+  WORLD_BOUNDS,
+  CONTOUR_LAYER,
+  HILLSHADE_LAYER,
+  SLOPE_LAYER,
+  ASPECT_LAYER,
+} from './types';
+
+/**
+ * A vector layer entry of a TileJSON document
+ */
+export interface VectorLayer {
+  id: string;
+  description: string;
+  minzoom: number;
+  maxzoom: number;
+  /** Attribute names mapped to a description of their values */
+  fields: Record<string, string>;
+}
+
+/**
+ * A TileJSON 3.0.0 document
+ */
+export interface TileJson {
+  tilejson: '3.0.0';
+  name: string;
+  description: string;
+  attribution: string;
+  scheme: 'xyz';
+  tiles: string[];
+  minzoom: number;
+  maxzoom: number;
+  bounds: [number, number, number, number];
+  vector_layers: VectorLayer[];
+}
+
+/**
+ * Layers in the terrain tile, in encoding order.
+ */
+const TERRAIN_LAYERS: Omit<VectorLayer, 'minzoom' | 'maxzoom'>[] = [
+  {
+    id: HILLSHADE_LAYER,
+    description: 'Nested shadow and highlight polygons',
+    fields: {
+      level: 'Number: luminance threshold (0-255)',
+      shade: 'Number: normalized shade (0 = darkest, 0.5 = flat, 1 = brightest)',
+    },
+  },
+  {
+    id: SLOPE_LAYER,
+    description: 'Nested slope class polygons, gentlest first',
+    fields: {
+      minDeg: 'Number: lower bound of the slope class in degrees',
+      maxDeg: 'Number: upper bound of the slope class in degrees',
+    },
+  },
+  {
+    id: ASPECT_LAYER,
+    description: 'Polygons grouping terrain by the compass direction it faces',
+    fields: {
+      sector: 'String: N, NE, E, SE, S, SW, W, NW or flat',
+    },
+  },
+  {
+    id: CONTOUR_LAYER,
+    description: 'Contour lines',
+    fields: {
+      level: 'Number: elevation in the requested unit',
+      level_m: 'Number: elevation in meters',
+      index: 'Boolean: true for index contours',
+    },
+  },
+];
+
+/**
+ * Builds the TileJSON document for the terrain source.
+ *
+ * @param tileUrl Tile URL template with {z}/{x}/{y} placeholders
+ *
+ * @example
+ * const tileJson = buildTileJson('https://example.com/tiles/terrain/{z}/{x}/{y}.mvt');
+ */
+export function buildTileJson(tileUrl: string): TileJson {
+  return {
+    tilejson: '3.0.0',
+    name: 'Vector Elevation Model',
+    description: 'Contours, hillshade, slope and aspect generated from DEM tiles',
+    attribution: '<a href="https://mapterhorn.com/">Mapterhorn</a>',
+    scheme: 'xyz',
+    tiles: [tileUrl],
+    minzoom: MIN_ZOOM,
+    maxzoom: MAX_ZOOM,
+    bounds: WORLD_BOUNDS,
+    vector_layers: TERRAIN_LAYERS.map((layer) => ({
+      ...layer,
+      minzoom: MIN_ZOOM,
+      maxzoom: MAX_ZOOM,
+    })),
+  };
+}
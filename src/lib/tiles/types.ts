@@ -2,6 +2,8 @@
  * Core types for tile processing and vector tile generation.
  */
 
+import type { Grid } from '../dem/grid';
+
 /**
  * Tile coordinates in the XYZ scheme
  */
@@ -23,6 +25,49 @@ export interface BufferedGrid {
   height: number;
   /** Buffer size in pixels on each side */
   bufferPx: number;
+  /** NoData mask (1 = no value, grid value NaN). Absent when every cell has a value */
+  noData?: Uint8Array;
+  /**
+   * Set when a source failed and the grid was composed from the sources
+   * below it. It may lack the best data, so results derived from it should
+   * only be cached briefly.
+   */
+  degraded?: boolean;
+}
+
+/**
+ * A source of elevation grids for web mercator tiles.
+ */
+export interface DemSource {
+  /**
+   * Fetches the elevation grid of a tile at TILE_SIZE resolution, with
+   * `bufferPx` pixels of surrounding terrain on each side.
+   *
+   * @throws Error if the source cannot provide the tile
+   */
+  fetchTile(coord: TileCoord, bufferPx?: number): Promise<BufferedGrid>;
+
+  /**
+   * Fetches the elevation grid of a tile at the source's own resolution for
+   * point queries, without buffer. NoData cells are NaN and masked.
+   *
+   * @throws Error if the source cannot provide the tile
+   */
+  fetchSourceTile(coord: TileCoord): Promise<Grid>;
+}
+
+/**
+ * A store of encoded (PNG or WebP) DEM tiles, read by TileFetcher.
+ */
+export interface TileStore {
+  /**
+   * Reads the encoded image of a tile.
+   *
+   * @returns The image bytes, or null if the store has no such tile; missing
+   *   tiles read as NoData
+   * @throws Error if the store fails to answer, as opposed to lacking the tile
+   */
+  getTile(z: number, x: number, y: number): Promise<ArrayBuffer | null>;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -44,6 +89,56 @@ export const TILE_SIZE = 256;
  */
 export const SOURCE_TILE_SIZE = 512;
 
+/** Zoom range served by the terrain endpoint */
+export const MIN_ZOOM = 0;
+export const MAX_ZOOM = 22;
+
+/**
+ * Deepest level below a tile that underzoom rules may read from.
+ * Each level quadruples the source pixels decoded per tile.
+ */
+export const MAX_UNDERZOOM_DEPTH = 2;
+
+/**
+ * Default memory budget of TileFetcher's decoded tile cache: 32 MiB, about
+ * 32 source tiles of 512×512 pixels.
+ */
+export const DEFAULT_TILE_CACHE_BYTES = 32 * 1024 * 1024;
+
+/** Web Mercator coverage as [west, south, east, north] in degrees */
+export const WORLD_BOUNDS: [number, number, number, number] = [-180, -85.051129, 180, 85.051129];
+
+/** Source zoom used for elevation queries when none is given */
+export const DEFAULT_ELEVATION_ZOOM = 12;
+
+/** Maximum number of points in a batch elevation query */
+export const MAX_ELEVATION_POINTS = 100;
+
+/**
+ * Maximum number of distinct source tiles an elevation query or profile may
+ * read, keeping a request within the Workers subrequest limit
+ */
+export const MAX_ELEVATION_TILES = 32;
+
+/** Source tiles an elevation query fetches at a time */
+export const ELEVATION_FETCH_BATCH = 6;
+
+/** Sample spacing of elevation profiles when none is given (meters) */
+export const DEFAULT_PROFILE_SPACING = 30;
+
+/** Maximum number of samples in an elevation profile */
+export const MAX_PROFILE_SAMPLES = 2000;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Layer Names
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** MVT layer names in the terrain tile */
+export const CONTOUR_LAYER = 'contour';
+export const HILLSHADE_LAYER = 'hillshade';
+export const SLOPE_LAYER = 'slope';
+export const ASPECT_LAYER = 'aspect';
+
 /**
  * Gets the contour interval for a given zoom level
  */
@@ -57,6 +152,59 @@ export function getContourInterval(zoom: number): number {
   return 10; // z15+
 }
 
+/**
+ * Unit of contour elevations
+ */
+export type ContourUnit = 'm' | 'ft';
+
+/** International foot in meters */
+export const METERS_PER_FOOT = 0.3048;
+
+/**
+ * Gets the contour interval in feet for a given zoom level.
+ * Parallels {@link getContourInterval} with round US-customary intervals.
+ */
+export function getContourIntervalFeet(zoom: number): number {
+  if (zoom <= 2) return 5000;
+  if (zoom <= 7) return 2500;
+  if (zoom <= 9) return 1000;
+  if (zoom <= 11) return 500;
+  if (zoom <= 13) return 200;
+  if (zoom === 14) return 100;
+  return 40; // z15+
+}
+
+/**
+ * Converts an elevation in the given unit to meters
+ */
+export function toMeters(value: number, unit: ContourUnit): number {
+  return unit === 'ft' ? value * METERS_PER_FOOT : value;
+}
+
+/**
+ * Converts an elevation in meters to the given unit
+ */
+export function fromMeters(value: number, unit: ContourUnit): number {
+  return unit === 'ft' ? value / METERS_PER_FOOT : value;
+}
+
+/**
+ * How many more contour levels than the zoom's default ladder a request may
+ * ask for. Bounds the feature count (and generation time) of custom intervals.
+ */
+export const CONTOUR_LEVEL_FACTOR = 5;
+
+/**
+ * Gets the maximum number of contour levels allowed for a given zoom level
+ */
+export function getMaxContourLevels(zoom: number): number {
+  const defaultLevels = Math.ceil((MAX_ELEVATION - MIN_ELEVATION) / getContourInterval(zoom));
+  return defaultLevels * CONTOUR_LEVEL_FACTOR;
+}
+
+/** Default spacing of index contours (every Nth line) */
+export const DEFAULT_INDEX_EVERY = 5;
+
 /**
  * Gets the hillshade band interval for a given zoom level.
  * Returns the luminance step between shade bands (0-255 range).
@@ -67,6 +215,17 @@ export function getHillshadeInterval(zoom: number): number {
   return 16;                  // 16 bands at z12+
 }
 
+/** Range of hillshade band counts a request may ask for */
+export const MIN_HILLSHADE_BANDS = 2;
+export const MAX_HILLSHADE_BANDS = 64;
+
+/**
+ * Converts a number of hillshade bands to the luminance step between them.
+ */
+export function bandsToHillshadeInterval(bands: number): number {
+  return Math.ceil(MAX_LUMINANCE / bands);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Shared Constants
 // ─────────────────────────────────────────────────────────────────────────────
@@ -89,6 +248,15 @@ export const MAX_ELEVATION = 9000;
 export const MIN_LUMINANCE = 0;
 export const MAX_LUMINANCE = 256;
 
+/**
+ * Default slope class breaks in degrees.
+ * Matches the common avalanche terrain bands (30°, 35°, 40°, 45°).
+ */
+export const DEFAULT_SLOPE_BREAKS = [30, 35, 40, 45];
+
+/** Upper bound of the steepest slope class */
+export const MAX_SLOPE = 90;
+
 /** Default sun position - classic cartographic convention */
 export const DEFAULT_SUN_ALTITUDE = 45;
 export const DEFAULT_SUN_AZIMUTH = 315;
@@ -107,11 +275,14 @@ export function getHillshadeBaseline(sunAltitude: number = DEFAULT_SUN_ALTITUDE)
  * Cache version for invalidation.
  * Bump this when algorithms change to invalidate all cached tiles.
  */
-export const CACHE_VERSION = '3';
+export const CACHE_VERSION = '10';
 
 /** Default cache TTL: 1 day in seconds */
 export const DEFAULT_CACHE_TTL = 24 * 3600;
 
+/** Cache TTL of tiles generated from a degraded grid: 1 minute in seconds */
+export const DEGRADED_CACHE_TTL = 60;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Utility Functions
 // ─────────────────────────────────────────────────────────────────────────────
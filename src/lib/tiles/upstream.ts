@@ -0,0 +1,218 @@
+/**
+ * Resilient HTTP fetching of upstream tiles.
+ * Adds timeouts, retries with jittered backoff and a circuit breaker per
+ * upstream host, and separates missing tiles from failed requests.
+ */
+
+/**
+ * Upstream request options.
+ */
+export interface UpstreamOptions {
+  /** Time limit of each attempt, including reading the body. Default: 10000 */
+  timeoutMs?: number;
+  /** Retries after a 5xx, 408, 429, timeout or network error. Default: 2 */
+  retries?: number;
+  /** Base delay of the exponential backoff between retries. Default: 200 */
+  retryDelayMs?: number;
+  /** Consecutive failed requests that open a host's circuit. Default: 5 */
+  failureThreshold?: number;
+  /** Time an open circuit rejects requests before letting one through. Default: 30000 */
+  resetMs?: number;
+}
+
+/**
+ * An upstream request that failed after its retries, was refused, timed out,
+ * or was rejected by an open circuit. Unlike a missing tile, the data may
+ * exist, so results derived without it must not be cached.
+ */
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    /** Whether the last attempt timed out */
+    readonly timeout: boolean = false,
+    /** HTTP status of the last attempt, if the upstream answered */
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Default time limit of an upstream request attempt in milliseconds */
+export const DEFAULT_UPSTREAM_TIMEOUT_MS = 10_000;
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 200;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_MS = 30_000;
+
+/** Statuses of resources that do not exist, read as missing data */
+const MISSING_STATUSES = [204, 404, 410];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Circuit Breaker
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Tracks consecutive failures of a host. After `threshold` failures the
+ * circuit opens and rejects requests for `resetMs`; then requests pass again,
+ * and the first failure reopens it until a request succeeds.
+ */
+class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+
+  constructor(
+    private readonly threshold: number,
+    private readonly resetMs: number
+  ) {}
+
+  isOpen(): boolean {
+    return Date.now() < this.openUntil;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openUntil = 0;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.failures >= this.threshold) {
+      this.openUntil = Date.now() + this.resetMs;
+    }
+  }
+}
+
+// Circuit breakers by host and settings, shared by all requests of the isolate
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Returns the circuit breaker of a host for the given settings. Callers with
+ * different settings for the same host get separate breakers, so each keeps
+ * its own threshold and reset time.
+ */
+function getCircuitBreaker(host: string, options: UpstreamOptions): CircuitBreaker {
+  const threshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+  const resetMs = options.resetMs ?? DEFAULT_RESET_MS;
+  const key = `${host}:${threshold}:${resetMs}`;
+
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(threshold, resetMs);
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fetching
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A byte range of an upstream resource.
+ */
+export interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+/**
+ * Fetches the body of an upstream resource, or of a byte range of it.
+ *
+ * Returns null when the upstream answers 404, 410 or 204, such as a 404 for a
+ * tile outside the DEM's coverage. Server errors, 408, 429, timeouts and
+ * network errors are retried with exponential backoff and full jitter. Other
+ * client errors, such as a 403 for an expired credential, fail without
+ * retries. Either way the request counts as one failure of the host's
+ * circuit breaker.
+ *
+ * @throws UpstreamError if every attempt failed or the host's circuit is open
+ */
+export async function fetchUpstream(
+  url: string,
+  options: UpstreamOptions = {},
+  range?: ByteRange
+): Promise<ArrayBuffer | null> {
+  const host = new URL(url).host;
+  const breaker = getCircuitBreaker(host, options);
+  if (breaker.isOpen()) {
+    throw new UpstreamError(`Upstream ${host} is unavailable after repeated failures`);
+  }
+
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  let lastError = new UpstreamError(`Failed to fetch ${url}`);
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      await sleep(Math.random() * retryDelayMs * Math.pow(2, attempt - 1));
+    }
+
+    const result = await fetchAttempt(url, options.timeoutMs ?? DEFAULT_UPSTREAM_TIMEOUT_MS, range);
+    if (!(result instanceof UpstreamError)) {
+      breaker.recordSuccess();
+      return result;
+    }
+    lastError = result;
+    if (result.status !== undefined && !isRetryableStatus(result.status)) {
+      break;
+    }
+  }
+
+  breaker.recordFailure();
+  throw lastError;
+}
+
+/**
+ * Makes a single request, returning the body, null for a missing resource,
+ * or an UpstreamError for a failure.
+ */
+async function fetchAttempt(
+  url: string,
+  timeoutMs: number,
+  range?: ByteRange
+): Promise<ArrayBuffer | null | UpstreamError> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const init: RequestInit = range
+    ? {
+        signal: controller.signal,
+        headers: { Range: `bytes=${range.offset}-${range.offset + range.length - 1}` },
+      }
+    : { signal: controller.signal };
+
+  try {
+    const response = await fetch(url, init);
+    if (MISSING_STATUSES.includes(response.status)) {
+      return null;
+    }
+    if (response.ok) {
+      return await response.arrayBuffer();
+    }
+    return new UpstreamError(
+      `Upstream responded ${response.status} for ${url}`,
+      false,
+      response.status
+    );
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return new UpstreamError(`Upstream timed out after ${timeoutMs} ms for ${url}`, true);
+    }
+    return new UpstreamError(`Failed to fetch ${url}: ${String(error)}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState, useCallback } from "react";
 import maplibregl from "maplibre-gl";
 import "maplibre-gl/dist/maplibre-gl.css";
+import { buildTerrainStyle, STYLE_LAYER_IDS } from "../lib/style";
 import "./App.css";
 
 function App() {
@@ -15,89 +16,9 @@ function App() {
 
     map.current = new maplibregl.Map({
       container: mapContainer.current,
-      style: {
-        version: 8,
-        sources: {
-          // Combined terrain source - single tile contains both layers
-          terrain: {
-            type: "vector",
-            tiles: [window.location.origin + "/tiles/terrain/{z}/{x}/{y}.mvt"],
-            minzoom: 1,
-            maxzoom: 15,
-          },
-        },
-        layers: [
-          {
-            id: "background",
-            type: "background",
-            paint: { "background-color": "#c9c4bc" },
-          },
-          {
-            id: "hillshade-shadow",
-            type: "fill",
-            source: "terrain",
-            "source-layer": "hillshade",
-            filter: ["<", ["get", "shade"], 0.5],
-            layout: { visibility: "visible" },
-            paint: {
-              "fill-color": "#3d3224",
-              "fill-opacity": [
-                "interpolate",
-                ["linear"],
-                ["get", "shade"],
-                0, 0.6,
-                0.5, 0,
-              ],
-              "fill-antialias": false,
-            },
-          },
-          {
-            id: "hillshade-highlight",
-            type: "fill",
-            source: "terrain",
-            "source-layer": "hillshade",
-            filter: [">=", ["get", "shade"], 0.5],
-            layout: { visibility: "visible" },
-            paint: {
-              "fill-color": "#fffff0",
-              "fill-opacity": [
-                "interpolate",
-                ["linear"],
-                ["get", "shade"],
-                0.5, 0,
-                1, 0.5,
-              ],
-              "fill-antialias": false,
-            },
-          },
-          {
-            id: "contour-lines",
-            type: "line",
-            source: "terrain",
-            "source-layer": "contour",
-            filter: ["==", ["get", "index"], false],
-            layout: { visibility: "visible" },
-            paint: {
-              "line-color": "#6b5d4d",
-              "line-width": 0.6,
-              "line-opacity": 0.4,
-            },
-          },
-          {
-            id: "contour-index",
-            type: "line",
-            source: "terrain",
-            "source-layer": "contour",
-            filter: ["==", ["get", "index"], true],
-            layout: { visibility: "visible" },
-            paint: {
-              "line-color": "#5a4d3f",
-              "line-width": 1,
-              "line-opacity": 0.5,
-            },
-          },
-        ],
-      },
+      style: buildTerrainStyle({
+        tileUrl: window.location.origin + "/tiles/terrain/{z}/{x}/{y}.mvt",
+      }),
       center: [7.45, 46.95],
       zoom: 12,
     });
@@ -119,14 +40,16 @@ function App() {
 
   useEffect(() => {
     if (!mapLoaded) return;
-    setVisibility("hillshade-shadow", showHillshade);
-    setVisibility("hillshade-highlight", showHillshade);
+    for (const id of STYLE_LAYER_IDS.hillshade) {
+      setVisibility(id, showHillshade);
+    }
   }, [mapLoaded, showHillshade, setVisibility]);
 
   useEffect(() => {
     if (!mapLoaded) return;
-    setVisibility("contour-lines", showContours);
-    setVisibility("contour-index", showContours);
+    for (const id of STYLE_LAYER_IDS.contour) {
+      setVisibility(id, showContours);
+    }
   }, [mapLoaded, showContours, setVisibility]);
 
   return (
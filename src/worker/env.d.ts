@@ -0,0 +1,13 @@
+/**
+ * Optional bindings of the worker, merged into the Env generated by
+ * `wrangler types`. R2 buckets are not declared in wrangler.json by default,
+ * so the worker must run without them.
+ */
+declare namespace Cloudflare {
+  interface Env {
+    /** Source tiles read with DEM_BUCKET_KEY or DEM_PMTILES_KEY */
+    DEM_BUCKET?: R2Bucket;
+    /** Persistent cache of generated terrain tiles */
+    TILE_CACHE_BUCKET?: R2Bucket;
+  }
+}
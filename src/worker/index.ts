@@ -1,6 +1,10 @@
 import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { terrainHandler } from "./routes/terrain";
+import { tileJsonHandler } from "./routes/tilejson";
+import { styleHandler } from "./routes/style";
+import { elevationHandler, elevationBatchHandler } from "./routes/elevation";
+import { profileHandler } from "./routes/profile";
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -9,6 +13,19 @@ app.use("*", cors());
 
 app.get("/api/", (c) => c.json({ name: "Cloudflare" }));
 
+// Point elevation queries
+app.get("/api/elevation", elevationHandler);
+app.post("/api/elevation", elevationBatchHandler);
+
+// Elevation profiles along a line
+app.post("/api/profile", profileHandler);
+
+// TileJSON describing the terrain source
+app.get("/tiles/terrain.json", tileJsonHandler);
+
+// MapLibre style for the terrain tiles
+app.get("/styles/terrain.json", styleHandler);
+
 // Vector tile endpoint - single MVT with both contour and hillshade layers
 app.get("/tiles/terrain/:z/:x/:y", terrainHandler);
 
@@ -0,0 +1,61 @@
+/**
+ * DEM tile access backed by a Cloudflare R2 bucket.
+ */
+
+import type { Source } from 'pmtiles';
+import type { TileStore } from '../lib/tiles/types';
+import { UpstreamError } from '../lib/tiles/upstream';
+
+/**
+ * Creates a store reading encoded DEM tiles from R2 objects, named by a key
+ * template with {z}, {x} and {y} placeholders (e.g. "terrarium/{z}/{x}/{y}.webp").
+ * Missing objects read as missing tiles; failed reads throw an UpstreamError.
+ */
+export function createR2TileStore(bucket: R2Bucket, keyTemplate: string): TileStore {
+  return {
+    async getTile(z, x, y) {
+      const key = keyTemplate
+        .replace('{z}', String(z))
+        .replace('{x}', String(x))
+        .replace('{y}', String(y));
+
+      const object = await getObject(bucket, key);
+      return object ? object.arrayBuffer() : null;
+    },
+  };
+}
+
+/**
+ * Creates a PMTiles source reading byte ranges of an R2 object.
+ *
+ * @throws Error from getBytes if the object does not exist
+ * @throws UpstreamError from getBytes if the read fails
+ */
+export function createR2RangeSource(bucket: R2Bucket, objectKey: string): Source {
+  return {
+    getKey: () => `r2:${objectKey}`,
+    getBytes: async (offset, length) => {
+      const object = await getObject(bucket, objectKey, { range: { offset, length } });
+      if (!object) {
+        throw new Error(`PMTiles archive ${objectKey} not found in DEM_BUCKET`);
+      }
+      return { data: await object.arrayBuffer(), etag: object.etag };
+    },
+  };
+}
+
+/**
+ * Reads an object, reporting failed reads as UpstreamErrors so that results
+ * derived without the data are not cached.
+ */
+async function getObject(
+  bucket: R2Bucket,
+  key: string,
+  options?: R2GetOptions
+): Promise<R2ObjectBody | null> {
+  try {
+    return await bucket.get(key, options);
+  } catch (error) {
+    throw new UpstreamError(`Failed to read ${key} from DEM_BUCKET: ${String(error)}`);
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Point elevation endpoint.
+ * Samples DEM tiles at exact locations, e.g. for map click queries.
+ */
+
+import type { Context } from 'hono';
+import {
+  type LngLat,
+  sampleElevations,
+  validateElevationQuery,
+} from '../../lib/tiles/elevation-sampler';
+import { DEFAULT_CACHE_TTL, DEFAULT_ELEVATION_ZOOM, MAX_ELEVATION_POINTS } from '../../lib/tiles/types';
+import { getDemSource } from '../tile-fetcher';
+import { upstreamErrorResponse } from '../upstream-response';
+
+/**
+ * Handler for single point elevation queries.
+ * GET /api/elevation?lat=…&lon=…&z=…
+ *
+ * Returns the elevation in meters, the source tile it was sampled from and
+ * the tile's ground resolution. `z` defaults to {@link DEFAULT_ELEVATION_ZOOM}.
+ * Fails with 502, or 504 on a timeout, when the upstream DEM source fails.
+ */
+export async function elevationHandler(c: Context): Promise<Response> {
+  let point: LngLat;
+  let zoom: number;
+  try {
+    point = {
+      lat: parseRequiredNumber(c.req.query('lat'), 'lat'),
+      lon: parseRequiredNumber(c.req.query('lon'), 'lon'),
+    };
+    zoom = parseZoom(c.req.query('z'));
+    validateElevationQuery([point], zoom);
+  } catch (error) {
+    return c.json({ error: 'Invalid query parameters', details: (error as Error).message }, 400);
+  }
+
+  try {
+    const [sample] = await sampleElevations(getDemSource(c.env as Env), [point], zoom);
+    return c.json(sample, 200, {
+      'Cache-Control': `public, max-age=${DEFAULT_CACHE_TTL}`,
+    });
+  } catch (error) {
+    const upstreamResponse = upstreamErrorResponse(c, error, 'elevation');
+    if (upstreamResponse) {
+      return upstreamResponse;
+    }
+    console.error('elevation query error:', error);
+    return c.json({ error: 'Failed to sample elevation', details: String(error) }, 500);
+  }
+}
+
+/**
+ * Handler for batch elevation queries.
+ * POST /api/elevation with a JSON body `{ "points": [{ "lat": …, "lon": … }], "z": … }`
+ *
+ * Accepts up to {@link MAX_ELEVATION_POINTS} points and returns
+ * `{ "results": [...] }` in the order of the input points. Upstream failures
+ * are answered like in elevationHandler.
+ */
+export async function elevationBatchHandler(c: Context): Promise<Response> {
+  let points: LngLat[];
+  let zoom: number;
+  try {
+    const body = await c.req.json<{ points?: unknown; z?: unknown }>();
+    points = parsePoints(body.points);
+    zoom = body.z === undefined ? DEFAULT_ELEVATION_ZOOM : Number(body.z);
+    validateElevationQuery(points, zoom);
+  } catch (error) {
+    return c.json({ error: 'Invalid request body', details: (error as Error).message }, 400);
+  }
+
+  try {
+    const results = await sampleElevations(getDemSource(c.env as Env), points, zoom);
+    return c.json({ results });
+  } catch (error) {
+    const upstreamResponse = upstreamErrorResponse(c, error, 'elevation');
+    if (upstreamResponse) {
+      return upstreamResponse;
+    }
+    console.error('elevation query error:', error);
+    return c.json({ error: 'Failed to sample elevation', details: String(error) }, 500);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+function parseRequiredNumber(raw: string | undefined, name: string): number {
+  if (raw === undefined || raw === '') {
+    throw new Error(`${name} is required`);
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new Error(`${name} must be a number`);
+  }
+  return value;
+}
+
+function parseZoom(raw: string | undefined): number {
+  return raw === undefined || raw === '' ? DEFAULT_ELEVATION_ZOOM : parseRequiredNumber(raw, 'z');
+}
+
+function parsePoints(value: unknown): LngLat[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('points must be a non-empty array');
+  }
+  if (value.length > MAX_ELEVATION_POINTS) {
+    throw new Error(`At most ${MAX_ELEVATION_POINTS} points are allowed`);
+  }
+
+  return value.map((point: { lat?: unknown; lon?: unknown } | null) => {
+    if (typeof point?.lat !== 'number' || typeof point?.lon !== 'number') {
+      throw new Error('Each point must have numeric lat and lon');
+    }
+    return { lat: point.lat, lon: point.lon };
+  });
+}
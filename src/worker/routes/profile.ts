@@ -0,0 +1,89 @@
+/**
+ * Elevation profile endpoint.
+ * Samples the DEM along a line for route planning.
+ */
+
+import type { Context } from 'hono';
+import type { LineString, Position } from 'geojson';
+import { validateElevationQuery } from '../../lib/tiles/elevation-sampler';
+import { computeProfile, countProfileSamples, densifyLine } from '../../lib/tiles/profile';
+import {
+  DEFAULT_ELEVATION_ZOOM,
+  DEFAULT_PROFILE_SPACING,
+  MAX_PROFILE_SAMPLES,
+} from '../../lib/tiles/types';
+import { getDemSource } from '../tile-fetcher';
+import { upstreamErrorResponse } from '../upstream-response';
+
+/**
+ * Handler for elevation profile requests.
+ * POST /api/profile with a JSON body:
+ * `{ "line": <GeoJSON LineString or Feature>, "spacing": 30, "z": 12 }`
+ *
+ * Returns `{ "profile": [[distance, elevation], ...], "stats": {...} }`.
+ * `spacing` defaults to {@link DEFAULT_PROFILE_SPACING} meters and the line may
+ * produce at most {@link MAX_PROFILE_SAMPLES} samples, spanning at most
+ * `MAX_ELEVATION_TILES` source tiles. Fails with 502, or 504 on a timeout,
+ * when the upstream DEM source fails.
+ */
+export async function profileHandler(c: Context): Promise<Response> {
+  let coordinates: Position[];
+  let spacing: number;
+  let zoom: number;
+  try {
+    const body = await c.req.json<{ line?: unknown; spacing?: unknown; z?: unknown }>();
+    coordinates = parseLineString(body.line);
+    spacing = body.spacing === undefined ? DEFAULT_PROFILE_SPACING : Number(body.spacing);
+    zoom = body.z === undefined ? DEFAULT_ELEVATION_ZOOM : Number(body.z);
+
+    if (!(spacing > 0)) {
+      throw new Error('Spacing must be positive');
+    }
+    validateElevationQuery(coordinates.map(([lon, lat]) => ({ lon, lat })), zoom);
+
+    const samples = countProfileSamples(coordinates, spacing);
+    if (samples > MAX_PROFILE_SAMPLES) {
+      throw new Error(
+        `Line produces ${samples} samples, more than the ${MAX_PROFILE_SAMPLES} allowed; increase spacing`
+      );
+    }
+    validateElevationQuery(densifyLine(coordinates, spacing), zoom);
+  } catch (error) {
+    return c.json({ error: 'Invalid request body', details: (error as Error).message }, 400);
+  }
+
+  try {
+    const profile = await computeProfile(getDemSource(c.env as Env), coordinates, spacing, zoom);
+    return c.json(profile);
+  } catch (error) {
+    const upstreamResponse = upstreamErrorResponse(c, error, 'profile');
+    if (upstreamResponse) {
+      return upstreamResponse;
+    }
+    console.error('profile error:', error);
+    return c.json({ error: 'Failed to compute profile', details: String(error) }, 500);
+  }
+}
+
+/**
+ * Extracts the positions of a GeoJSON LineString geometry or Feature.
+ */
+function parseLineString(value: unknown): Position[] {
+  const feature = value as { type?: string; geometry?: unknown } | null;
+  const line = (feature?.type === 'Feature' ? feature.geometry : value) as Partial<LineString> | null;
+
+  if (line?.type !== 'LineString' || !Array.isArray(line.coordinates)) {
+    throw new Error('line must be a GeoJSON LineString');
+  }
+  if (line.coordinates.length < 2) {
+    throw new Error('Line must have at least 2 positions');
+  }
+  for (const position of line.coordinates) {
+    const [lon, lat] = Array.isArray(position) ? position : [];
+    if (typeof lon !== 'number' || typeof lat !== 'number') {
+      throw new Error('Line positions must be [lon, lat] number pairs');
+    }
+  }
+
+  return line.coordinates;
+}
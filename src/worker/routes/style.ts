@@ -0,0 +1,69 @@
+/**
+ * MapLibre style endpoint for the terrain tiles.
+ * Serves the shared terrain style, pointing at this worker's tile endpoint.
+ */
+
+import type { Context } from 'hono';
+import {
+  DEFAULT_PALETTE,
+  DEFAULT_STYLE_LAYERS,
+  PALETTES,
+  STYLE_LAYER_GROUPS,
+  buildTerrainStyle,
+  isPaletteName,
+  isStyleLayerGroup,
+} from '../../lib/style';
+import { DEFAULT_CACHE_TTL } from '../../lib/tiles/types';
+import { getSlopeBreaks } from '../terrain-params';
+
+/** Query parameters consumed by the style; all others are forwarded to the tile URL */
+const STYLE_PARAMS = ['palette', 'layers'];
+
+/**
+ * Style handler.
+ *
+ * Query parameters:
+ * - `palette` - Palette name (default `earth`)
+ * - `layers` - Comma-separated layer groups (default `hillshade,contour`)
+ *
+ * Other query parameters (e.g. `azimuth`, `units`) are forwarded to the tile URL.
+ * The slope ramp spans the SLOPE_BREAKS classes of the tiles.
+ */
+export async function styleHandler(c: Context): Promise<Response> {
+  const url = new URL(c.req.url);
+
+  const palette = url.searchParams.get('palette') || DEFAULT_PALETTE;
+  if (!isPaletteName(palette)) {
+    return c.json(
+      {
+        error: 'Invalid query parameters',
+        details: `Palette must be one of ${Object.keys(PALETTES).join(', ')}`,
+      },
+      400
+    );
+  }
+
+  const layersParam = url.searchParams.get('layers');
+  const layers = layersParam ? layersParam.split(',') : DEFAULT_STYLE_LAYERS;
+  if (!layers.every(isStyleLayerGroup)) {
+    return c.json(
+      {
+        error: 'Invalid query parameters',
+        details: `Layers must be a list of ${STYLE_LAYER_GROUPS.join(', ')}`,
+      },
+      400
+    );
+  }
+
+  for (const name of STYLE_PARAMS) {
+    url.searchParams.delete(name);
+  }
+  const tileUrl = `${url.origin}/tiles/terrain/{z}/{x}/{y}.mvt${url.search}`;
+
+  const slopeBreaks = getSlopeBreaks(c.env as Record<string, string>);
+  const style = buildTerrainStyle({ tileUrl, palette, layers, slopeBreaks });
+
+  return c.json(style, 200, {
+    'Cache-Control': `public, max-age=${DEFAULT_CACHE_TTL}`,
+  });
+}
@@ -1,49 +1,60 @@
 /**
  * Combined terrain tile endpoint.
- * Generates a single vector tile containing both contour and hillshade layers.
+ * Generates a single vector tile containing contour, hillshade, slope and aspect layers.
  *
  * This reduces network requests by fetching source elevation data once
- * and producing both layer types in a single MVT response.
+ * and producing all layer types in a single MVT response.
  */
 
 import type { Context } from 'hono';
 import type { Feature, LineString, Polygon } from 'geojson';
-import { traceLines, hillshade, getResolution, tracePolygons } from '../../lib/dem';
+import {
+  traceLines,
+  hillshade,
+  slope,
+  aspect,
+  aspectSector,
+  ASPECT_SECTORS,
+  FLAT_SECTOR,
+  getResolution,
+  getGroundResolution,
+  tracePolygons,
+  createGrid,
+  fillNoData,
+} from '../../lib/dem';
 import {
   type TileCoord,
   TILE_SIZE,
   MVT_EXTENT,
+  MIN_ZOOM,
+  MAX_ZOOM,
+  CONTOUR_LAYER,
+  HILLSHADE_LAYER,
+  SLOPE_LAYER,
+  ASPECT_LAYER,
   BUFFER_PX,
-  DEFAULT_TILE_URL,
-  CACHE_VERSION,
   DEFAULT_CACHE_TTL,
+  DEGRADED_CACHE_TTL,
   generateLevels,
-  getContourInterval,
-  getHillshadeInterval,
+  toMeters,
   getHillshadeBaseline,
-  MIN_ELEVATION,
-  MAX_ELEVATION,
   MIN_LUMINANCE,
   MAX_LUMINANCE,
-  DEFAULT_SUN_ALTITUDE,
-  DEFAULT_SUN_AZIMUTH,
+  MAX_SLOPE,
 } from '../../lib/tiles/types';
-import { TileFetcher } from '../../lib/tiles/fetcher';
+import { tileToWgs84Bounds } from '../../lib/tiles/fetcher';
 import { transformAndClipFeatures, transformAndClipPolygonFeatures } from '../../lib/tiles/coordinate-transform';
 import { encodeMultiLayerFeatures, getMvtHeaders, type LayerDefinition } from '../../lib/tiles/encoder';
-
-// Cached tile fetcher
-let tileFetcher: TileFetcher | null = null;
-let tileFetcherUrl: string | null = null;
-
-function getTileFetcher(env: Env): TileFetcher {
-  const url = (env as Record<string, string>).DEM_TILE_URL ?? DEFAULT_TILE_URL;
-  if (!tileFetcher || tileFetcherUrl !== url) {
-    tileFetcher = new TileFetcher(url);
-    tileFetcherUrl = url;
-  }
-  return tileFetcher;
-}
+import { type TerrainParams, parseTerrainParams, getTerrainCacheKey } from '../terrain-params';
+import { getDemSource } from '../tile-fetcher';
+import { upstreamErrorResponse } from '../upstream-response';
+import {
+  DEFAULT_TILE_CACHE_TTL,
+  getTileCacheBucket,
+  getTileCacheKey,
+  readCachedTile,
+  writeCachedTile,
+} from '../tile-cache';
 
 /**
  * Parses tile coordinates from Hono context parameters.
@@ -54,7 +65,7 @@ function parseTileCoords(c: Context): TileCoord | null {
   const yParam = c.req.param('y') ?? '';
   const y = parseInt(yParam.replace(/\.mvt$/i, ''), 10);
 
-  if (isNaN(z) || isNaN(x) || isNaN(y) || z < 0 || z > 22) {
+  if (isNaN(z) || isNaN(x) || isNaN(y) || z < MIN_ZOOM || z > MAX_ZOOM) {
     return null;
   }
 
@@ -68,24 +79,36 @@ function parseTileCoords(c: Context): TileCoord | null {
 
 /**
  * Processes elevation grid into contour line features.
+ *
+ * Levels are generated in the requested unit and aligned to multiples of the
+ * interval, so index contours (every Nth multiple) fall on round values.
+ * They are converted to meters for tracing; features carry both `level` in
+ * the requested unit and `level_m` in meters.
  */
-function processContours(
+export function processContours(
   grid: Float64Array,
   width: number,
   height: number,
-  zoom: number
+  noData: Uint8Array | undefined,
+  params: TerrainParams
 ): Feature<LineString>[] {
-  const interval = getContourInterval(zoom);
-  const levels = generateLevels(MIN_ELEVATION, MAX_ELEVATION, interval);
-  const contours = traceLines(grid, width, height, levels);
+  const { units, contourInterval: interval, indexEvery, minElevation, maxElevation } = params;
+  const start = Math.ceil(minElevation / interval) * interval;
+  const levels = generateLevels(start, maxElevation, interval);
+
+  // Map each traced meter level back to its exact value in the requested unit
+  const levelsByMeters = new Map(levels.map((level) => [toMeters(level, units), level]));
+  const contours = traceLines(grid, width, height, [...levelsByMeters.keys()], { noData });
 
   return contours.map((contour) => {
-    const level = contour.properties?.level ?? 0;
+    const levelMeters = contour.properties?.level ?? 0;
+    const level = levelsByMeters.get(levelMeters) ?? levelMeters;
     return {
       ...contour,
       properties: {
-        ...contour.properties,
-        index: level % (interval * 5) === 0,
+        level,
+        level_m: levelMeters,
+        index: Math.round(level / interval) % indexEvery === 0,
       },
     } as Feature<LineString>;
   });
@@ -93,21 +116,33 @@ function processContours(
 
 /**
  * Processes elevation grid into hillshade polygon features.
+ *
+ * Uses multi-directional lighting unless the request pins a sun azimuth,
+ * so that ridges running parallel to any single light still produce
+ * distinct shadow and highlight bands.
  */
 function processHillshade(
   grid: Float64Array,
   width: number,
   height: number,
-  zoom: number
+  noData: Uint8Array | undefined,
+  zoom: number,
+  params: TerrainParams
 ): Feature<Polygon>[] {
   const cellSize = getResolution(zoom);
   const hillshadeGrid = hillshade(grid, width, height, cellSize, {
-    altitude: DEFAULT_SUN_ALTITUDE,
-    azimuth: DEFAULT_SUN_AZIMUTH,
+    altitude: params.altitude,
+    azimuth: params.azimuth ?? undefined,
+    multidirectional: params.azimuth === null,
+    noData,
   });
 
-  const baseline = getHillshadeBaseline(DEFAULT_SUN_ALTITUDE);
-  const interval = getHillshadeInterval(zoom);
+  const baseline = getHillshadeBaseline(params.altitude);
+  const interval = params.hillshadeInterval;
+
+  // Guard the shade normalization against a sun at the horizon or zenith
+  const shadowRange = Math.max(baseline, 1);
+  const highlightRange = Math.max(255 - baseline, 1);
 
   const highlightLevels = generateLevels(baseline, MAX_LUMINANCE, interval);
   const shadowOriginalLevels = generateLevels(MIN_LUMINANCE, baseline, interval);
@@ -118,30 +153,127 @@ function processHillshade(
     invertedData[i] = 255 - hillshadeGrid.data[i];
   }
 
-  const highlightPolygons = tracePolygons(hillshadeGrid.data, width, height, highlightLevels);
-  const shadowPolygons = tracePolygons(invertedData, width, height, shadowInvertedLevels);
+  const shadeOptions = { noData: hillshadeGrid.noData };
+  const highlightPolygons = tracePolygons(
+    hillshadeGrid.data,
+    width,
+    height,
+    highlightLevels,
+    shadeOptions
+  );
+  const shadowPolygons = tracePolygons(
+    invertedData,
+    width,
+    height,
+    shadowInvertedLevels,
+    shadeOptions
+  );
 
   const highlightFeatures = highlightPolygons.map((feature) => {
     const level = feature.properties?.level ?? baseline;
-    const shade = 0.5 + ((level - baseline) / (255 - baseline)) * 0.5;
+    const shade = 0.5 + ((level - baseline) / highlightRange) * 0.5;
     return { ...feature, properties: { level, shade } } as Feature<Polygon>;
   });
 
   const shadowFeatures = shadowPolygons.map((feature) => {
     const invertedLevel = feature.properties?.level ?? 255;
     const originalLevel = 255 - invertedLevel;
-    const shade = (originalLevel / baseline) * 0.5;
+    const shade = (originalLevel / shadowRange) * 0.5;
     return { ...feature, properties: { level: originalLevel, shade } } as Feature<Polygon>;
   });
 
   return [...shadowFeatures, ...highlightFeatures];
 }
 
+/**
+ * Gets the ground resolution at the center of a tile.
+ */
+function getTileGroundResolution(coord: TileCoord): number {
+  const { minLat, maxLat } = tileToWgs84Bounds(coord.z, coord.x, coord.y);
+  return getGroundResolution(coord.z, (minLat + maxLat) / 2);
+}
+
+/**
+ * Processes elevation grid into slope class polygon features.
+ *
+ * Polygons nest like the hillshade bands: the polygon for a break covers all
+ * terrain at least that steep. Features are emitted from gentlest to steepest,
+ * so painting them in order leaves each area colored by its own class.
+ */
+function processSlope(
+  grid: Float64Array,
+  width: number,
+  height: number,
+  noData: Uint8Array | undefined,
+  coord: TileCoord,
+  breaks: number[]
+): Feature<Polygon>[] {
+  // Slope angles need true ground distances, so correct for Mercator scale
+  const slopeGrid = slope(grid, width, height, getTileGroundResolution(coord), { noData });
+
+  const polygons = tracePolygons(slopeGrid.data, width, height, breaks, {
+    noData: slopeGrid.noData,
+  });
+
+  return polygons.map((feature) => {
+    const minDeg = feature.properties?.level ?? 0;
+    const next = breaks.indexOf(minDeg) + 1;
+    const maxDeg = next < breaks.length ? breaks[next] : MAX_SLOPE;
+    return { ...feature, properties: { minDeg, maxDeg } } as Feature<Polygon>;
+  });
+}
+
+/**
+ * Processes elevation grid into aspect sector polygon features.
+ *
+ * Each cell is classified into one of 8 compass sectors (or flat), and each
+ * sector is traced separately from a 0/1 membership grid, so the resulting
+ * polygons tile the area without overlapping. NoData cells belong to no sector.
+ */
+function processAspect(
+  grid: Float64Array,
+  width: number,
+  height: number,
+  noData: Uint8Array | undefined,
+  coord: TileCoord
+): Feature<Polygon>[] {
+  const aspectGrid = aspect(grid, width, height, getTileGroundResolution(coord), { noData });
+  const sectors = Array.from(aspectGrid.data, (value) =>
+    Number.isNaN(value) ? null : aspectSector(value)
+  );
+
+  const features: Feature<Polygon>[] = [];
+  const membership = new Float64Array(sectors.length);
+
+  for (const sector of [...ASPECT_SECTORS, FLAT_SECTOR]) {
+    let present = false;
+    for (let i = 0; i < sectors.length; i++) {
+      membership[i] = sectors[i] === sector ? 1 : 0;
+      present ||= sectors[i] === sector;
+    }
+    if (!present) continue;
+
+    for (const feature of tracePolygons(membership, width, height, 0.5)) {
+      features.push({ ...feature, properties: { sector } } as Feature<Polygon>);
+    }
+  }
+
+  return features;
+}
+
 /**
  * Handler for combined terrain tile requests.
  * GET /tiles/terrain/:z/:x/:y.mvt
  *
- * Returns a single MVT containing both 'contour' and 'hillshade' layers.
+ * Returns a single MVT containing 'hillshade', 'slope', 'aspect' and 'contour' layers.
+ * Fails with 502, or 504 on a timeout, when the upstream DEM source fails;
+ * these responses are not cached, so the tile is retried on the next request.
+ * Tiles composed while a DEM_SOURCES source failed are served with a
+ * DEGRADED_CACHE_TTL and kept out of the persistent cache.
+ *
+ * Tiles are cached with the Cache API and, when the TILE_CACHE_BUCKET binding
+ * is set, in R2: a Cache API miss reads the tile from the bucket before
+ * generating it, and generated tiles are written to both.
  */
 export async function terrainHandler(c: Context): Promise<Response> {
   const coord = parseTileCoords(c);
@@ -149,14 +281,27 @@ export async function terrainHandler(c: Context): Promise<Response> {
     return c.json({ error: 'Invalid tile coordinates' }, 400);
   }
 
-  const { z, x, y } = coord;
+  const { z } = coord;
   const env = c.env as Record<string, string>;
   const cacheEnabled = env.CACHE_ENABLED !== 'false';
 
+  let params: TerrainParams;
   try {
-    // Check cache
-    const cacheKey = new Request(`https://cache/${CACHE_VERSION}/terrain/${z}/${x}/${y}.mvt`);
+    params = parseTerrainParams(c.req.query(), z, env);
+  } catch (error) {
+    return c.json({ error: 'Invalid query parameters', details: (error as Error).message }, 400);
+  }
+
+  try {
+    // Check cache (key includes every parameter that affects the output)
+    const cacheUrl = getTerrainCacheKey(coord, params);
+    const cacheKey = new Request(cacheUrl);
     const cache = caches.default;
+    const bucket = cacheEnabled ? getTileCacheBucket(c.env as Env) : null;
+    const bucketKey = getTileCacheKey(cacheUrl);
+    const compress = env.COMPRESSION_ENABLED !== 'false';
+    const cacheTTL = parseInt(env.CACHE_TTL ?? '', 10) || DEFAULT_CACHE_TTL;
+    const headers = getMvtHeaders(compress, cacheTTL);
 
     if (cacheEnabled) {
       const cachedResponse = await cache.match(cacheKey);
@@ -165,13 +310,33 @@ export async function terrainHandler(c: Context): Promise<Response> {
       }
     }
 
-    // Fetch elevation data once for both layers
-    const fetcher = getTileFetcher(c.env as Env);
-    const { grid, width, height } = await fetcher.fetchTile(coord, BUFFER_PX);
+    // Read through to the persistent cache, refilling the local one
+    if (bucket) {
+      const cachedTile = await readCachedTile(bucket, bucketKey, compress);
+      if (cachedTile) {
+        const response = new Response(cachedTile, { headers });
+        c.executionCtx.waitUntil(cache.put(cacheKey, response.clone()));
+        return response;
+      }
+    }
+
+    // Fetch elevation data once for all layers
+    const source = getDemSource(c.env as Env);
+    const tile = await source.fetchTile(coord, BUFFER_PX);
+    const { width, height } = tile;
+
+    // Fill voids once for all layers; skipped voids keep their mask
+    const elevation = fillNoData(
+      createGrid(tile.grid, width, height, tile.noData),
+      params.noDataMode
+    );
+    const { data: grid, noData } = elevation;
 
-    // Process both contours and hillshade from the same grid
-    const contourFeatures = processContours(grid, width, height, z);
-    const hillshadeFeatures = processHillshade(grid, width, height, z);
+    // Process all layers from the same grid
+    const contourFeatures = processContours(grid, width, height, noData, params);
+    const hillshadeFeatures = processHillshade(grid, width, height, noData, z, params);
+    const slopeFeatures = processSlope(grid, width, height, noData, coord, params.slopeBreaks);
+    const aspectFeatures = processAspect(grid, width, height, noData, coord);
 
     // Transform and clip features
     const transformConfig = {
@@ -182,12 +347,15 @@ export async function terrainHandler(c: Context): Promise<Response> {
 
     const transformedContours = transformAndClipFeatures(contourFeatures, transformConfig);
     const transformedHillshade = transformAndClipPolygonFeatures(hillshadeFeatures, transformConfig);
+    const transformedSlope = transformAndClipPolygonFeatures(slopeFeatures, transformConfig);
+    const transformedAspect = transformAndClipPolygonFeatures(aspectFeatures, transformConfig);
 
-    // Encode both layers into a single MVT
-    const compress = env.COMPRESSION_ENABLED !== 'false';
+    // Encode all layers into a single MVT
     const layers: LayerDefinition[] = [
-      { name: 'hillshade', features: transformedHillshade },
-      { name: 'contour', features: transformedContours },
+      { name: HILLSHADE_LAYER, features: transformedHillshade },
+      { name: SLOPE_LAYER, features: transformedSlope },
+      { name: ASPECT_LAYER, features: transformedAspect },
+      { name: CONTOUR_LAYER, features: transformedContours },
     ];
 
     const mvtData = encodeMultiLayerFeatures(layers, {
@@ -195,17 +363,29 @@ export async function terrainHandler(c: Context): Promise<Response> {
       compress,
     });
 
-    // Create response and cache
-    const cacheTTL = parseInt(env.CACHE_TTL ?? '', 10) || DEFAULT_CACHE_TTL;
-    const headers = getMvtHeaders(compress, cacheTTL);
-    const response = new Response(mvtData, { headers });
+    // Create response and cache; degraded tiles expire soon, so the failed
+    // source is retried, and never reach the bucket
+    if (tile.degraded) {
+      console.error(`terrain tile ${z}/${coord.x}/${coord.y} is degraded by a failed DEM source`);
+    }
+    const response = new Response(mvtData, {
+      headers: tile.degraded ? getMvtHeaders(compress, DEGRADED_CACHE_TTL) : headers,
+    });
 
     if (cacheEnabled) {
       c.executionCtx.waitUntil(cache.put(cacheKey, response.clone()));
     }
+    if (bucket && !tile.degraded) {
+      const ttl = parseInt(env.TILE_CACHE_TTL ?? '', 10) || DEFAULT_TILE_CACHE_TTL;
+      c.executionCtx.waitUntil(writeCachedTile(bucket, bucketKey, mvtData, compress, ttl));
+    }
 
     return response;
   } catch (error) {
+    const upstreamResponse = upstreamErrorResponse(c, error, 'terrain');
+    if (upstreamResponse) {
+      return upstreamResponse;
+    }
     console.error('terrain generation error:', error);
     return c.json({ error: 'Failed to generate terrain tile', details: String(error) }, 500);
   }
@@ -0,0 +1,22 @@
+/**
+ * TileJSON endpoint for the terrain source.
+ * Describes the tile URL, zoom range and layer schema served by /tiles/terrain.
+ */
+
+import type { Context } from 'hono';
+import { buildTileJson } from '../../lib/tiles/tilejson';
+import { DEFAULT_CACHE_TTL } from '../../lib/tiles/types';
+
+/**
+ * TileJSON handler.
+ * The tile URL is built from the request origin, and any query string is
+ * forwarded so clients can request custom-lit or custom-contoured tiles.
+ */
+export async function tileJsonHandler(c: Context): Promise<Response> {
+  const url = new URL(c.req.url);
+  const tileUrl = `${url.origin}/tiles/terrain/{z}/{x}/{y}.mvt${url.search}`;
+
+  return c.json(buildTileJson(tileUrl), 200, {
+    'Cache-Control': `public, max-age=${DEFAULT_CACHE_TTL}`,
+  });
+}
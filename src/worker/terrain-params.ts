@@ -0,0 +1,208 @@
+/**
+ * Request parameters for terrain tiles.
+ *
+ * Parses and validates the optional query string overrides accepted by
+ * /tiles/terrain/:z/:x/:y and resolves every parameter to a concrete value,
+ * so equivalent requests share one canonical cache key.
+ */
+
+import { type NoDataMode, validateSunPosition, isNoDataMode } from '../lib/dem';
+import {
+  type TileCoord,
+  type ContourUnit,
+  CACHE_VERSION,
+  DEFAULT_SUN_ALTITUDE,
+  DEFAULT_INDEX_EVERY,
+  MIN_ELEVATION,
+  MAX_ELEVATION,
+  DEFAULT_SLOPE_BREAKS,
+  MAX_SLOPE,
+  MIN_HILLSHADE_BANDS,
+  MAX_HILLSHADE_BANDS,
+  bandsToHillshadeInterval,
+  getContourInterval,
+  getContourIntervalFeet,
+  fromMeters,
+  getHillshadeInterval,
+  getMaxContourLevels,
+} from '../lib/tiles/types';
+
+/**
+ * Fully resolved parameters for generating a terrain tile.
+ */
+export interface TerrainParams {
+  /** Sun altitude in degrees */
+  altitude: number;
+  /** Sun azimuth in degrees, or null for multi-directional lighting */
+  azimuth: number | null;
+  /** Luminance step between hillshade bands */
+  hillshadeInterval: number;
+  /** Slope class breaks in degrees */
+  slopeBreaks: number[];
+  /** Unit of contour elevations below */
+  units: ContourUnit;
+  /** Elevation step between contour lines */
+  contourInterval: number;
+  /** Every Nth contour line is an index contour */
+  indexEvery: number;
+  /** Lowest contour elevation (inclusive) */
+  minElevation: number;
+  /** Highest contour elevation (exclusive) */
+  maxElevation: number;
+  /** Treatment of NoData cells in the elevation grid */
+  noDataMode: NoDataMode;
+}
+
+/**
+ * Parses terrain parameters from the query string and environment.
+ *
+ * Query parameters:
+ * - `altitude` - Sun altitude in degrees (0-90)
+ * - `azimuth` - Sun azimuth in degrees (0-360); disables multi-directional lighting
+ * - `bands` - Number of hillshade bands (2-64); defaults to a zoom-dependent count
+ * - `units` - Contour unit, `m` (default) or `ft`; applies to the contour parameters below
+ * - `interval` - Contour interval; defaults to a zoom-dependent interval for the unit
+ * - `indexEvery` - Spacing of index contours (every Nth line, default 5)
+ * - `minElevation`, `maxElevation` - Elevation range of contour lines
+ *
+ * Custom contour settings are rejected if they would produce more levels than
+ * {@link getMaxContourLevels} allows at the requested zoom.
+ *
+ * @throws Error with a client-facing message if a parameter is invalid
+ */
+export function parseTerrainParams(
+  query: Record<string, string>,
+  zoom: number,
+  env: Record<string, string>
+): TerrainParams {
+  const altitude = parseNumberParam(query, 'altitude') ?? DEFAULT_SUN_ALTITUDE;
+  const azimuth = parseNumberParam(query, 'azimuth') ?? null;
+  validateSunPosition(altitude, azimuth ?? 0);
+
+  const bands = parseNumberParam(query, 'bands');
+  if (
+    bands !== undefined &&
+    (!Number.isInteger(bands) || bands < MIN_HILLSHADE_BANDS || bands > MAX_HILLSHADE_BANDS)
+  ) {
+    throw new Error(
+      `Bands must be an integer between ${MIN_HILLSHADE_BANDS} and ${MAX_HILLSHADE_BANDS}`
+    );
+  }
+
+  const units = query.units || 'm';
+  if (units !== 'm' && units !== 'ft') {
+    throw new Error("Units must be 'm' or 'ft'");
+  }
+
+  const defaultInterval = units === 'ft' ? getContourIntervalFeet(zoom) : getContourInterval(zoom);
+  const contourInterval = parseNumberParam(query, 'interval') ?? defaultInterval;
+  if (contourInterval <= 0) {
+    throw new Error('Interval must be positive');
+  }
+
+  const indexEvery = parseNumberParam(query, 'indexEvery') ?? DEFAULT_INDEX_EVERY;
+  if (!Number.isInteger(indexEvery) || indexEvery < 1) {
+    throw new Error('indexEvery must be a positive integer');
+  }
+
+  // Elevation limits expressed in the requested unit
+  const lowest = Math.floor(fromMeters(MIN_ELEVATION, units));
+  const highest = Math.ceil(fromMeters(MAX_ELEVATION, units));
+
+  const minElevation = parseNumberParam(query, 'minElevation') ?? lowest;
+  const maxElevation = parseNumberParam(query, 'maxElevation') ?? highest;
+  if (minElevation < lowest || maxElevation > highest || minElevation >= maxElevation) {
+    throw new Error(
+      `Elevation range must satisfy ${lowest} <= minElevation < maxElevation <= ${highest}`
+    );
+  }
+
+  const levelCount = Math.ceil((maxElevation - minElevation) / contourInterval);
+  const maxLevels = getMaxContourLevels(zoom);
+  if (levelCount > maxLevels) {
+    throw new Error(
+      `Contour settings produce ${levelCount} levels, more than the ${maxLevels} allowed at zoom ${zoom}`
+    );
+  }
+
+  return {
+    altitude,
+    azimuth,
+    hillshadeInterval:
+      bands !== undefined ? bandsToHillshadeInterval(bands) : getHillshadeInterval(zoom),
+    slopeBreaks: getSlopeBreaks(env),
+    units,
+    contourInterval,
+    indexEvery,
+    minElevation,
+    maxElevation,
+    noDataMode: getNoDataMode(env),
+  };
+}
+
+/**
+ * Builds the cache key for a terrain tile.
+ * Every resolved parameter is part of the key, so differently-lit tiles
+ * never collide and default values map to the same entry as explicit ones.
+ */
+export function getTerrainCacheKey(coord: TileCoord, params: TerrainParams): string {
+  const { z, x, y } = coord;
+  const search = new URLSearchParams({
+    altitude: String(params.altitude),
+    azimuth: params.azimuth === null ? 'multi' : String(params.azimuth),
+    hillshadeInterval: String(params.hillshadeInterval),
+    slopeBreaks: params.slopeBreaks.join(','),
+    units: params.units,
+    interval: String(params.contourInterval),
+    indexEvery: String(params.indexEvery),
+    minElevation: String(params.minElevation),
+    maxElevation: String(params.maxElevation),
+    noData: params.noDataMode,
+  });
+  return `https://cache/${CACHE_VERSION}/terrain/${z}/${x}/${y}.mvt?${search}`;
+}
+
+/**
+ * Reads slope class breaks from the SLOPE_BREAKS variable (e.g. "30,35,40,45").
+ * Falls back to the defaults when unset or not a strictly ascending list of
+ * angles between 0 and 90 degrees.
+ */
+export function getSlopeBreaks(env: Record<string, string>): number[] {
+  if (!env.SLOPE_BREAKS) {
+    return DEFAULT_SLOPE_BREAKS;
+  }
+
+  const breaks = env.SLOPE_BREAKS.split(',').map((value) => parseFloat(value));
+  const valid = breaks.every(
+    (value, i) => value > 0 && value < MAX_SLOPE && (i === 0 || value > breaks[i - 1])
+  );
+
+  return valid ? breaks : DEFAULT_SLOPE_BREAKS;
+}
+
+/**
+ * Reads the NoData treatment from the DEM_NODATA variable ("skip", "nearest"
+ * or "idw"). Falls back to skip when unset or unrecognized.
+ */
+function getNoDataMode(env: Record<string, string>): NoDataMode {
+  const value = env.DEM_NODATA;
+  return value && isNoDataMode(value) ? value : 'skip';
+}
+
+/**
+ * Reads an optional numeric query parameter.
+ *
+ * @throws Error if the parameter is present but not a finite number
+ */
+function parseNumberParam(query: Record<string, string>, name: string): number | undefined {
+  const raw = query[name];
+  if (raw === undefined || raw === '') {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new Error(`${name} must be a number`);
+  }
+  return value;
+}
@@ -0,0 +1,100 @@
+/**
+ * Persistent cache of generated tiles backed by a Cloudflare R2 bucket.
+ *
+ * The Cache API is local to each data center and may evict tiles at any time;
+ * the bucket is global, so a tile is generated once and then served from it
+ * wherever the Cache API misses.
+ */
+
+/** Default lifetime of cached tiles: 30 days in seconds */
+export const DEFAULT_TILE_CACHE_TTL = 30 * 24 * 3600;
+
+/**
+ * Returns the TILE_CACHE_BUCKET binding when the persistent cache is
+ * configured.
+ */
+export function getTileCacheBucket(env: Env): R2Bucket | null {
+  return env.TILE_CACHE_BUCKET ?? null;
+}
+
+/**
+ * Derives the object key of a tile from its Cache API key, e.g.
+ * "10/terrain/12/2130/1446.mvt?altitude=45&…" for
+ * "https://cache/10/terrain/12/2130/1446.mvt?altitude=45&…". Keys thus start
+ * with CACHE_VERSION, and a version bump leaves the old tiles unused.
+ */
+export function getTileCacheKey(cacheUrl: string): string {
+  const { pathname, search } = new URL(cacheUrl);
+  return `${pathname.slice(1)}${search}`;
+}
+
+/** First bytes of a gzip stream */
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+/**
+ * Reads an encoded tile from the bucket.
+ *
+ * The bucket is only a cache: read errors and corrupt objects are logged and
+ * read as misses, so the tile is generated instead.
+ *
+ * @param compressed Whether the caller serves gzip-compressed tiles
+ * @returns The tile bytes, or null when the tile is missing, expired, was
+ *   stored with the other compression setting, or cannot be read
+ */
+export async function readCachedTile(
+  bucket: R2Bucket,
+  key: string,
+  compressed: boolean
+): Promise<ArrayBuffer | null> {
+  try {
+    const object = await bucket.get(key);
+    if (!object) {
+      return null;
+    }
+
+    const { expires, compressed: storedCompressed } = object.customMetadata ?? {};
+    if (Number(expires) <= Date.now() || storedCompressed !== String(compressed)) {
+      // Release the unread body
+      await object.body.cancel();
+      return null;
+    }
+
+    const data = await object.arrayBuffer();
+    if (compressed && !isGzip(data)) {
+      console.error(`tile cache: ${key} is not a gzip stream`);
+      return null;
+    }
+    return data;
+  } catch (error) {
+    console.error('tile cache read error:', error);
+    return null;
+  }
+}
+
+/**
+ * Writes an encoded tile to the bucket, expiring `ttl` seconds from now.
+ * Write errors are logged, not thrown, as the tile has already been served.
+ */
+export async function writeCachedTile(
+  bucket: R2Bucket,
+  key: string,
+  data: Uint8Array,
+  compressed: boolean,
+  ttl: number
+): Promise<void> {
+  try {
+    await bucket.put(key, data, {
+      customMetadata: {
+        expires: String(Date.now() + ttl * 1000),
+        compressed: String(compressed),
+      },
+    });
+  } catch (error) {
+    console.error('tile cache write error:', error);
+  }
+}
+
+function isGzip(data: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, GZIP_MAGIC.length));
+  return GZIP_MAGIC.every((byte, i) => bytes[i] === byte);
+}
@@ -0,0 +1,360 @@
+/**
+ * Shared DEM tile fetcher and DEM source for worker routes.
+ */
+
+import type { TerrainEncoding } from '../lib/dem/elevation';
+import { type ResamplingMethod, isResamplingMethod } from '../lib/dem/resample';
+import { type UnderzoomRule, TileFetcher } from '../lib/tiles/fetcher';
+import { type CogSourceOptions, CogSource } from '../lib/tiles/cog-source';
+import { PmtilesStore } from '../lib/tiles/pmtiles-store';
+import { type CompositeLayer, CompositeSource } from '../lib/tiles/composite-source';
+import { DEFAULT_UPSTREAM_TIMEOUT_MS } from '../lib/tiles/upstream';
+import { createR2TileStore, createR2RangeSource } from './r2-store';
+import {
+  DEFAULT_TILE_URL,
+  SOURCE_TILE_SIZE,
+  MIN_ZOOM,
+  MAX_ZOOM,
+  MAX_UNDERZOOM_DEPTH,
+  BUFFER_PX,
+  DEFAULT_TILE_CACHE_BYTES,
+  type DemSource,
+  type TileStore,
+} from '../lib/tiles/types';
+
+// Cached tile fetcher
+let tileFetcher: TileFetcher | null = null;
+let tileFetcherKey: string | null = null;
+
+// Cached COG source; it keeps the GeoTIFF header between requests
+let cogSource: CogSource | null = null;
+let cogSourceKey: string | null = null;
+
+// Cached composite source
+let compositeSource: CompositeSource | null = null;
+let compositeSourceKey: string | null = null;
+
+/**
+ * A source entry of the DEM_SOURCES variable.
+ */
+interface SourceConfig {
+  /** Tile URL template, PMTiles archive or Cloud-Optimized GeoTIFF */
+  type: 'tiles' | 'pmtiles' | 'cog';
+  url: string;
+  /** Encoding of tiles and PMTiles sources. Default: 'terrarium' */
+  encoding?: TerrainEncoding;
+  bounds?: [number, number, number, number];
+  minZoom?: number;
+  maxZoom?: number;
+  /** Deepest zoom of tiles and PMTiles sources, overzoomed beyond. Default: MAX_ZOOM */
+  maxSourceZoom?: number;
+}
+
+/**
+ * Returns the DEM source for terrain tiles: the composite of DEM_SOURCES when
+ * set, a Cloud-Optimized GeoTIFF when DEM_COG_URL is set, the tile fetcher
+ * otherwise.
+ *
+ * @throws Error if DEM_SOURCES is malformed
+ */
+export function getDemSource(env: Env): DemSource {
+  const vars = env as unknown as Record<string, string>;
+  const sources = getSourceConfigs(vars);
+  if (sources) {
+    return getCompositeSource(vars, sources);
+  }
+
+  const url = vars.DEM_COG_URL;
+  if (!url) {
+    return getTileFetcher(env);
+  }
+
+  const resampling = getCogResampling(vars);
+  const timeoutMs = getTimeout(vars);
+  const key = `${resampling}:${timeoutMs}:${url}`;
+  if (!cogSource || cogSourceKey !== key) {
+    cogSource = new CogSource(url, { resampling, upstream: { timeoutMs } });
+    cogSourceKey = key;
+  }
+  return cogSource;
+}
+
+/**
+ * Returns the composite of the configured sources, feathered by DEM_FEATHER,
+ * reusing the instance across requests while the configuration is unchanged.
+ * DEM_RESAMPLING, DEM_UNDERZOOM and DEM_TIMEOUT_MS apply to every source, as
+ * for a single one; the DEM_CACHE_MB budget is shared evenly by the tile
+ * fetchers of the sources.
+ */
+function getCompositeSource(vars: Record<string, string>, sources: SourceConfig[]): CompositeSource {
+  const resampling = getResampling(vars);
+  const cogResampling = getCogResampling(vars);
+  const underzoom = getUnderzoom(vars);
+  const featherPx = getFeather(vars);
+  const cacheBytes = getCacheBytes(vars);
+  const timeoutMs = getTimeout(vars);
+  const key = `${resampling}:${JSON.stringify(underzoom)}:${featherPx}:${cacheBytes}:${timeoutMs}:${JSON.stringify(sources)}`;
+
+  if (!compositeSource || compositeSourceKey !== key) {
+    const fetcherCount = sources.filter(({ type }) => type !== 'cog').length;
+    const layerCacheBytes = fetcherCount > 0 ? Math.floor(cacheBytes / fetcherCount) : 0;
+    const layers = sources.map(
+      ({ type, url, encoding, bounds, minZoom, maxZoom, maxSourceZoom }): CompositeLayer => {
+        const store = type === 'pmtiles' ? new PmtilesStore(url, { timeoutMs }) : url;
+        const source =
+          type === 'cog'
+            ? new CogSource(url, { resampling: cogResampling, upstream: { timeoutMs } })
+            : new TileFetcher(store, SOURCE_TILE_SIZE, {
+                encoding,
+                resampling,
+                maxSourceZoom,
+                underzoom,
+                cacheBytes: layerCacheBytes,
+                upstream: { timeoutMs },
+              });
+        return { source, bounds, minZoom, maxZoom };
+      }
+    );
+    compositeSource = new CompositeSource(layers, { featherPx });
+    compositeSourceKey = key;
+  }
+  return compositeSource;
+}
+
+/**
+ * Returns the tile fetcher for the tile source (see getTileSource) and the
+ * DEM_ENCODING, DEM_RESAMPLING, DEM_MAX_ZOOM, DEM_UNDERZOOM, DEM_CACHE_MB and
+ * DEM_TIMEOUT_MS variables,
+ * reusing the instance across requests while they are unchanged.
+ */
+export function getTileFetcher(env: Env): TileFetcher {
+  const vars = env as unknown as Record<string, string>;
+  const timeoutMs = getTimeout(vars);
+  const source = getTileSource(env, timeoutMs);
+  const encoding = getEncoding(vars);
+  const resampling = getResampling(vars);
+  const maxSourceZoom = getMaxSourceZoom(vars);
+  const underzoom = getUnderzoom(vars);
+  const cacheBytes = getCacheBytes(vars);
+  const key = `${encoding}:${resampling}:${maxSourceZoom}:${JSON.stringify(underzoom)}:${cacheBytes}:${timeoutMs}:${source.key}`;
+
+  if (!tileFetcher || tileFetcherKey !== key) {
+    tileFetcher = new TileFetcher(source.create(), SOURCE_TILE_SIZE, {
+      encoding,
+      resampling,
+      maxSourceZoom,
+      underzoom,
+      cacheBytes,
+      upstream: { timeoutMs },
+    });
+    tileFetcherKey = key;
+  }
+  return tileFetcher;
+}
+
+/**
+ * Selects where source tiles are read from, in order of precedence:
+ *
+ * - DEM_PMTILES_KEY - PMTiles archive stored under this key in the DEM_BUCKET
+ *   R2 binding
+ * - DEM_BUCKET_KEY - Key template of individual tiles in the DEM_BUCKET R2
+ *   binding
+ * - DEM_PMTILES_URL - PMTiles archive read with HTTP range requests
+ * - DEM_TILE_URL - URL template of individual tiles (default: Mapterhorn)
+ *
+ * @param timeoutMs Time limit of each request to DEM_PMTILES_URL
+ * @returns A key identifying the source and a function creating its store
+ */
+function getTileSource(env: Env, timeoutMs: number): { key: string; create: () => string | TileStore } {
+  const vars = env as unknown as Record<string, string>;
+  const bucket = env.DEM_BUCKET;
+
+  if (vars.DEM_PMTILES_KEY && bucket) {
+    const objectKey = vars.DEM_PMTILES_KEY;
+    return {
+      key: `r2-pmtiles:${objectKey}`,
+      create: () => new PmtilesStore(createR2RangeSource(bucket, objectKey)),
+    };
+  }
+  if (vars.DEM_BUCKET_KEY && bucket) {
+    const keyTemplate = vars.DEM_BUCKET_KEY;
+    return { key: `r2:${keyTemplate}`, create: () => createR2TileStore(bucket, keyTemplate) };
+  }
+  if (vars.DEM_PMTILES_URL) {
+    const url = vars.DEM_PMTILES_URL;
+    return { key: `pmtiles:${url}`, create: () => new PmtilesStore(url, { timeoutMs }) };
+  }
+
+  const url = vars.DEM_TILE_URL ?? DEFAULT_TILE_URL;
+  return { key: url, create: () => url };
+}
+
+/**
+ * Reads the composite's sources from the DEM_SOURCES variable, a JSON list in
+ * priority order, e.g.
+ * `[{"type":"cog","url":"https://…/lidar.tif","bounds":[5.9,45.8,10.5,47.8],"minZoom":10},
+ * {"type":"tiles","url":"https://…/{z}/{x}/{y}.webp"}]`.
+ * Returns null when unset.
+ *
+ * @throws Error if the variable is not a non-empty JSON list of valid
+ *   entries, rather than silently serving another source
+ */
+function getSourceConfigs(vars: Record<string, string>): SourceConfig[] | null {
+  if (!vars.DEM_SOURCES) {
+    return null;
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(vars.DEM_SOURCES);
+  } catch (error) {
+    throw new Error(`Invalid DEM_SOURCES: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('Invalid DEM_SOURCES: expected a non-empty list of sources');
+  }
+  const invalid = value.findIndex((entry) => !isSourceConfig(entry));
+  if (invalid >= 0) {
+    throw new Error(`Invalid DEM_SOURCES: malformed source at index ${invalid}`);
+  }
+  return (value as SourceConfig[]).map(
+    ({ type, url, encoding, bounds, minZoom, maxZoom, maxSourceZoom }) => ({
+      type,
+      url,
+      encoding,
+      bounds,
+      minZoom,
+      maxZoom,
+      maxSourceZoom,
+    })
+  );
+}
+
+function isSourceConfig(value: unknown): value is SourceConfig {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const entry = value as Record<string, unknown>;
+  const { type, url, encoding, bounds, minZoom, maxZoom, maxSourceZoom } = entry;
+  const isZoom = (zoom: unknown) =>
+    zoom === undefined ||
+    (typeof zoom === 'number' && Number.isInteger(zoom) && zoom >= MIN_ZOOM && zoom <= MAX_ZOOM);
+  const validBounds =
+    bounds === undefined ||
+    (Array.isArray(bounds) &&
+      bounds.length === 4 &&
+      bounds.every((coordinate) => typeof coordinate === 'number' && Number.isFinite(coordinate)) &&
+      bounds[0] < bounds[2] &&
+      bounds[1] < bounds[3]);
+
+  return (
+    (type === 'tiles' || type === 'pmtiles' || type === 'cog') &&
+    typeof url === 'string' &&
+    url.length > 0 &&
+    (encoding === undefined || encoding === 'terrarium' || encoding === 'mapbox') &&
+    validBounds &&
+    isZoom(minZoom) &&
+    isZoom(maxZoom) &&
+    isZoom(maxSourceZoom) &&
+    ((minZoom as number | undefined) ?? MIN_ZOOM) <= ((maxZoom as number | undefined) ?? MAX_ZOOM)
+  );
+}
+
+/**
+ * Reads the feather width in pixels from the DEM_FEATHER variable. Falls back
+ * to 0 (hard coverage edges) when unset or not an integer from 0 to BUFFER_PX.
+ */
+function getFeather(vars: Record<string, string>): number {
+  const value = Number(vars.DEM_FEATHER);
+  return vars.DEM_FEATHER && Number.isInteger(value) && value >= 0 && value <= BUFFER_PX
+    ? value
+    : 0;
+}
+
+/**
+ * Reads the source encoding from the DEM_ENCODING variable ("terrarium" or
+ * "mapbox"). Falls back to Terrarium when unset or unrecognized.
+ */
+function getEncoding(vars: Record<string, string>): TerrainEncoding {
+  return vars.DEM_ENCODING === 'mapbox' ? 'mapbox' : 'terrarium';
+}
+
+/**
+ * Reads the resampling method from the DEM_RESAMPLING variable ("nearest",
+ * "bilinear", "bicubic", "area" or "max"). Falls back to nearest when unset or
+ * unrecognized.
+ */
+function getResampling(vars: Record<string, string>): ResamplingMethod {
+  const value = vars.DEM_RESAMPLING;
+  return value && isResamplingMethod(value) ? value : 'nearest';
+}
+
+/**
+ * Maps the DEM_RESAMPLING variable onto the interpolations of COG sources:
+ * nearest when it is "nearest", bilinear otherwise, including when unset.
+ */
+function getCogResampling(vars: Record<string, string>): CogSourceOptions['resampling'] {
+  return vars.DEM_RESAMPLING === 'nearest' ? 'nearest' : 'bilinear';
+}
+
+/**
+ * Reads the deepest zoom level of the source from the DEM_MAX_ZOOM variable.
+ * Falls back to MAX_ZOOM (no overzoom) when unset or not an integer in range.
+ */
+function getMaxSourceZoom(vars: Record<string, string>): number {
+  const value = Number(vars.DEM_MAX_ZOOM);
+  return vars.DEM_MAX_ZOOM && Number.isInteger(value) && value >= MIN_ZOOM && value <= MAX_ZOOM
+    ? value
+    : MAX_ZOOM;
+}
+
+/**
+ * Reads underzoom rules from the DEM_UNDERZOOM variable, a comma-separated
+ * list of `minZoom-maxZoom:depth:method` (e.g. "0-3:2:max,4-5:1:area").
+ * Falls back to no underzoom when unset or any rule is malformed.
+ */
+function getUnderzoom(vars: Record<string, string>): UnderzoomRule[] {
+  if (!vars.DEM_UNDERZOOM) {
+    return [];
+  }
+
+  const rules: UnderzoomRule[] = [];
+  for (const entry of vars.DEM_UNDERZOOM.split(',')) {
+    const match = /^\s*(\d+)-(\d+):(\d+):(area|max)\s*$/.exec(entry);
+    if (!match) {
+      return [];
+    }
+
+    const [minZoom, maxZoom, depth] = match.slice(1, 4).map(Number);
+    if (minZoom > maxZoom || maxZoom > MAX_ZOOM || depth < 1 || depth > MAX_UNDERZOOM_DEPTH) {
+      return [];
+    }
+    rules.push({ minZoom, maxZoom, depth, method: match[4] as UnderzoomRule['method'] });
+  }
+  return rules;
+}
+
+/**
+ * Reads the decoded tile cache size in megabytes from the DEM_CACHE_MB
+ * variable; 0 disables the cache. Falls back to DEFAULT_TILE_CACHE_BYTES when
+ * unset or not a non-negative number.
+ */
+function getCacheBytes(vars: Record<string, string>): number {
+  const value = Number(vars.DEM_CACHE_MB);
+  return vars.DEM_CACHE_MB && Number.isFinite(value) && value >= 0
+    ? Math.round(value * 1024 * 1024)
+    : DEFAULT_TILE_CACHE_BYTES;
+}
+
+/**
+ * Reads the upstream request timeout in milliseconds from the DEM_TIMEOUT_MS
+ * variable. Falls back to DEFAULT_UPSTREAM_TIMEOUT_MS when unset or not a
+ * positive integer.
+ */
+function getTimeout(vars: Record<string, string>): number {
+  const value = Number(vars.DEM_TIMEOUT_MS);
+  return vars.DEM_TIMEOUT_MS && Number.isInteger(value) && value > 0
+    ? value
+    : DEFAULT_UPSTREAM_TIMEOUT_MS;
+}
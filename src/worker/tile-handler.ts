@@ -28,7 +28,7 @@ let tileFetcher: TileFetcher | null = null;
 let tileFetcherUrl: string | null = null;
 
 function getTileFetcher(env: Env): TileFetcher {
-  const url = (env as Record<string, string>).DEM_TILE_URL ?? DEFAULT_TILE_URL;
+  const url = (env as unknown as Record<string, string>).DEM_TILE_URL ?? DEFAULT_TILE_URL;
   if (!tileFetcher || tileFetcherUrl !== url) {
     tileFetcher = new TileFetcher(url);
     tileFetcherUrl = url;
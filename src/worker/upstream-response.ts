@@ -0,0 +1,27 @@
+/**
+ * Error responses for upstream DEM failures, shared by the routes reading the
+ * DEM source.
+ */
+
+import type { Context } from 'hono';
+import { UpstreamError } from '../lib/tiles/upstream';
+
+/**
+ * Answers an UpstreamError with 502, or 504 on a timeout. The response is not
+ * cached, so the request is retried once the upstream recovers.
+ *
+ * @param label Route name prefixed to the logged error
+ * @returns The error response, or null if `error` is not an UpstreamError
+ */
+export function upstreamErrorResponse(c: Context, error: unknown, label: string): Response | null {
+  if (!(error instanceof UpstreamError)) {
+    return null;
+  }
+
+  console.error(`${label} upstream error:`, error);
+  return c.json(
+    { error: 'Failed to fetch DEM tiles', details: error.message },
+    error.timeout ? 504 : 502,
+    { 'Cache-Control': 'no-store' }
+  );
+}
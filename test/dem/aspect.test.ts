@@ -0,0 +1,101 @@
+/**
+ * Aspect Tests
+ * Tests for aspect calculation and compass sector classification
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aspect, aspectSector, FLAT_ASPECT } from '../../src/lib/dem';
+
+/**
+ * Creates a planar surface z = dx * x + dy * y (row 0 is north).
+ */
+function createPlane(size: number, dx: number, dy: number): number[] {
+  const dem: number[] = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      dem.push(dx * x + dy * y);
+    }
+  }
+  return dem;
+}
+
+/** Interior cell of a 5x5 grid, away from clamped boundaries */
+const CENTER = 2 * 5 + 2;
+
+describe('aspect', () => {
+  it('returns 0 for a north-facing slope', () => {
+    // Elevation rises toward the south, so the slope faces north
+    const result = aspect(createPlane(5, 0, 10), 5, 5, 10);
+    expect(result.data[CENTER]).toBeCloseTo(0, 6);
+  });
+
+  it('returns 90 for an east-facing slope', () => {
+    // Elevation rises toward the west
+    const result = aspect(createPlane(5, -10, 0), 5, 5, 10);
+    expect(result.data[CENTER]).toBeCloseTo(90, 6);
+  });
+
+  it('returns 180 for a south-facing slope', () => {
+    const result = aspect(createPlane(5, 0, -10), 5, 5, 10);
+    expect(result.data[CENTER]).toBeCloseTo(180, 6);
+  });
+
+  it('returns 225 for a south-west-facing slope', () => {
+    // Elevation rises toward the north-east
+    const result = aspect(createPlane(5, 10, -10), 5, 5, 10);
+    expect(result.data[CENTER]).toBeCloseTo(225, 6);
+  });
+
+  it('returns FLAT_ASPECT for flat terrain', () => {
+    const result = aspect(new Array(25).fill(100), 5, 5, 10);
+
+    for (const value of result.data) {
+      expect(value).toBe(FLAT_ASPECT);
+    }
+  });
+
+  it('treats slopes below the flat threshold as flat', () => {
+    // ~2.9° slope
+    const dem = createPlane(5, 0.5, 0);
+    expect(aspect(dem, 5, 5, 10, { flatSlope: 5 }).data[CENTER]).toBe(FLAT_ASPECT);
+    expect(aspect(dem, 5, 5, 10, { flatSlope: 1 }).data[CENTER]).toBeCloseTo(270, 6);
+  });
+
+  describe('validation errors', () => {
+    it('throws on non-positive cell size', () => {
+      expect(() => {
+        aspect(new Array(9).fill(0), 3, 3, 0);
+      }).toThrow('Cell size must be positive');
+    });
+
+    it('throws on flat slope out of range', () => {
+      expect(() => {
+        aspect(new Array(9).fill(0), 3, 3, 1, { flatSlope: 90 });
+      }).toThrow('Flat slope must be between 0 and 90 degrees');
+    });
+  });
+});
+
+describe('aspectSector', () => {
+  it('classifies cardinal and intercardinal directions', () => {
+    expect(aspectSector(0)).toBe('N');
+    expect(aspectSector(45)).toBe('NE');
+    expect(aspectSector(90)).toBe('E');
+    expect(aspectSector(135)).toBe('SE');
+    expect(aspectSector(180)).toBe('S');
+    expect(aspectSector(225)).toBe('SW');
+    expect(aspectSector(270)).toBe('W');
+    expect(aspectSector(315)).toBe('NW');
+  });
+
+  it('wraps North around 360 degrees', () => {
+    expect(aspectSector(350)).toBe('N');
+    expect(aspectSector(359.9)).toBe('N');
+    expect(aspectSector(22)).toBe('N');
+    expect(aspectSector(23)).toBe('NE');
+  });
+
+  it('classifies FLAT_ASPECT as flat', () => {
+    expect(aspectSector(FLAT_ASPECT)).toBe('flat');
+  });
+});
@@ -10,6 +10,7 @@ import {
   invertGrid,
   clampGrid,
   createGrid,
+  gridSampleBilinear,
   WorkersImageData,
 } from '../../src/lib/dem';
 
@@ -128,5 +129,30 @@ describe('Elevation Utilities', () => {
       expect(clamped.data[3]).toBe(100);
       expect(clamped.data[4]).toBe(255);
     });
+
+    it('samples cell centers exactly', () => {
+      const grid = createGrid([0, 10, 20, 30], 2, 2);
+
+      expect(gridSampleBilinear(grid, 0, 0)).toBe(0);
+      expect(gridSampleBilinear(grid, 1, 0)).toBe(10);
+      expect(gridSampleBilinear(grid, 0, 1)).toBe(20);
+      expect(gridSampleBilinear(grid, 1, 1)).toBe(30);
+    });
+
+    it('interpolates bilinearly between cell centers', () => {
+      const grid = createGrid([0, 10, 20, 30], 2, 2);
+
+      expect(gridSampleBilinear(grid, 0.5, 0)).toBeCloseTo(5, 10);
+      expect(gridSampleBilinear(grid, 0, 0.5)).toBeCloseTo(10, 10);
+      expect(gridSampleBilinear(grid, 0.5, 0.5)).toBeCloseTo(15, 10);
+      expect(gridSampleBilinear(grid, 0.25, 0.75)).toBeCloseTo(17.5, 10);
+    });
+
+    it('clamps samples outside the cell centers to the edge', () => {
+      const grid = createGrid([0, 10, 20, 30], 2, 2);
+
+      expect(gridSampleBilinear(grid, -0.5, -0.5)).toBe(0);
+      expect(gridSampleBilinear(grid, 1.5, 1.5)).toBe(30);
+    });
   });
 });
@@ -88,6 +88,64 @@ describe('hillshade', () => {
   });
 });
 
+describe('hillshade multidirectional', () => {
+  /** Plane z = dx * x + dy * y on a 5x5 grid */
+  function plane(dx: number, dy: number): number[] {
+    const dem: number[] = [];
+    for (let y = 0; y < 5; y++) {
+      for (let x = 0; x < 5; x++) {
+        dem.push(dx * x + dy * y);
+      }
+    }
+    return dem;
+  }
+
+  const CENTER = 2 * 5 + 2;
+
+  it('matches single-light output on flat terrain', () => {
+    const dem = new Array(25).fill(100);
+
+    const single = hillshade(dem, 5, 5, 1, { altitude: 45 });
+    const multi = hillshade(dem, 5, 5, 1, { altitude: 45, multidirectional: true });
+
+    expect(multi.data[CENTER]).toBeCloseTo(single.data[CENTER], 10);
+  });
+
+  it('separates opposite flanks of a ridge parallel to the 315° light', () => {
+    // Both flanks are lit identically by a single 315° sun
+    const flankA = plane(1, 1);
+    const flankB = plane(-1, -1);
+
+    const singleA = hillshade(flankA, 5, 5, 1, { azimuth: 315 }).data[CENTER];
+    const singleB = hillshade(flankB, 5, 5, 1, { azimuth: 315 }).data[CENTER];
+    expect(singleA).toBeCloseTo(singleB, 10);
+
+    const multiA = hillshade(flankA, 5, 5, 1, { multidirectional: true }).data[CENTER];
+    const multiB = hillshade(flankB, 5, 5, 1, { multidirectional: true }).data[CENTER];
+    expect(Math.abs(multiA - multiB)).toBeGreaterThan(50);
+  });
+
+  it('ignores azimuth', () => {
+    const dem = plane(1, 0.5);
+
+    const a = hillshade(dem, 5, 5, 1, { azimuth: 0, multidirectional: true });
+    const b = hillshade(dem, 5, 5, 1, { azimuth: 180, multidirectional: true });
+
+    expect(Array.from(a.data)).toEqual(Array.from(b.data));
+  });
+
+  it('produces output in 0-255 range', () => {
+    const dem = new Array(100).fill(0).map(() => Math.random() * 1000);
+
+    const result = hillshade(dem, 10, 10, 1, { multidirectional: true });
+
+    for (const value of result.data) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThanOrEqual(255);
+    }
+  });
+});
+
 describe('getResolution', () => {
   it('returns expected values for zoom levels', () => {
     // At zoom level 0, one tile covers the whole world
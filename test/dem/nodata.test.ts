@@ -0,0 +1,159 @@
+/**
+ * NoData Tests
+ * Tests for NoData masks, fill strategies and their use by the terrain functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createGrid,
+  fillNoData,
+  maskNaN,
+  isNoDataMode,
+  isNoDataPixel,
+  traceLines,
+  tracePolygons,
+  hillshade,
+  slope,
+} from '../../src/lib/dem';
+
+/**
+ * Creates a size×size eastward ramp with a NoData block in columns
+ * [voidStart, voidEnd).
+ */
+function createRampWithVoid(size: number, voidStart: number, voidEnd: number) {
+  const data = new Float64Array(size * size);
+  const noData = new Uint8Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = y * size + x;
+      if (x >= voidStart && x < voidEnd) {
+        data[i] = NaN;
+        noData[i] = 1;
+      } else {
+        data[i] = x * 10;
+      }
+    }
+  }
+  return { data, noData };
+}
+
+describe('fillNoData', () => {
+  it('returns the grid unchanged when skipping', () => {
+    const { data, noData } = createRampWithVoid(5, 2, 3);
+    const grid = createGrid(data, 5, 5, noData);
+
+    expect(fillNoData(grid, 'skip')).toBe(grid);
+  });
+
+  it('fills with the closest valid value', () => {
+    const grid = createGrid([1, NaN, NaN, NaN, 9], 5, 1, Uint8Array.from([0, 1, 1, 1, 0]));
+    const filled = fillNoData(grid, 'nearest');
+
+    expect(filled.noData).toBeUndefined();
+    expect(filled.data[1]).toBe(1);
+    expect(filled.data[3]).toBe(9);
+    expect([1, 9]).toContain(filled.data[2]);
+  });
+
+  it('fills by inverse-distance weighting', () => {
+    const grid = createGrid([0, NaN, NaN, NaN, 40], 5, 1, Uint8Array.from([0, 1, 1, 1, 0]));
+    const filled = fillNoData(grid, 'idw');
+
+    // Weights 1/d²: the middle cell is equidistant, the others lean to their side
+    expect(filled.data[2]).toBeCloseTo(20, 10);
+    expect(filled.data[1]).toBeCloseTo((0 * 1 + 40 / 9) / (1 + 1 / 9), 10);
+    expect(filled.data[3]).toBeCloseTo((40 * 1 + 0 / 9) / (1 + 1 / 9), 10);
+  });
+
+  it('keeps valid cells', () => {
+    const { data, noData } = createRampWithVoid(6, 2, 4);
+    const filled = fillNoData(createGrid(data, 6, 6, noData), 'idw');
+
+    for (let i = 0; i < data.length; i++) {
+      if (!noData[i]) expect(filled.data[i]).toBe(data[i]);
+      expect(Number.isNaN(filled.data[i])).toBe(false);
+    }
+  });
+
+  it('leaves a grid without valid cells masked', () => {
+    const grid = createGrid([NaN, NaN], 2, 1, Uint8Array.from([1, 1]));
+
+    expect(fillNoData(grid, 'nearest')).toBe(grid);
+  });
+});
+
+describe('NoData helpers', () => {
+  it('masks NaN cells', () => {
+    expect(maskNaN(Float64Array.from([1, NaN, 3]))).toEqual(Uint8Array.from([0, 1, 0]));
+    expect(maskNaN(Float64Array.from([1, 2, 3]))).toBeUndefined();
+  });
+
+  it('recognizes mode names', () => {
+    expect(isNoDataMode('idw')).toBe(true);
+    expect(isNoDataMode('zero')).toBe(false);
+  });
+
+  it('recognizes sentinel pixels', () => {
+    expect(isNoDataPixel(0, 0, 0, 255)).toBe(true);
+    expect(isNoDataPixel(128, 0, 0, 0)).toBe(true);
+    expect(isNoDataPixel(128, 0, 0, 255)).toBe(false);
+  });
+
+  it('rejects a mask of the wrong length', () => {
+    expect(() => createGrid([1, 2], 2, 1, new Uint8Array(3))).toThrow(
+      'NoData mask length (3) does not match grid data length (2)'
+    );
+  });
+});
+
+describe('terrain functions with NoData', () => {
+  const size = 8;
+  const { data, noData } = createRampWithVoid(size, 3, 5);
+
+  it('traceLines does not cross voids', () => {
+    // Level 35 lies inside the void, level 15 beside it
+    const inside = traceLines(data, size, size, 35, { noData });
+    const beside = traceLines(data, size, size, 15, { noData });
+
+    expect(inside).toHaveLength(0);
+    expect(beside).toHaveLength(1);
+    for (const [x] of beside[0].geometry.coordinates) {
+      expect(x).toBeCloseTo(1.5, 10);
+    }
+  });
+
+  it('traceLines runs through filled voids', () => {
+    const lines = traceLines(data, size, size, 35, { noData, noDataMode: 'idw' });
+
+    expect(lines).toHaveLength(1);
+  });
+
+  it('tracePolygons leaves voids out', () => {
+    const [east] = tracePolygons(data, size, size, 45, { noData });
+
+    // Only the columns east of the void are at or above 45
+    for (const [x] of east.geometry.coordinates[0]) {
+      expect(x).toBeGreaterThanOrEqual(5 - 1e-6);
+    }
+  });
+
+  it('hillshade marks void cells as NoData', () => {
+    const result = hillshade(data, size, size, 10, { noData });
+
+    expect(result.noData).toBe(noData);
+    for (let i = 0; i < result.data.length; i++) {
+      expect(Number.isNaN(result.data[i])).toBe(noData[i] === 1);
+    }
+  });
+
+  it('slope ignores void neighbors', () => {
+    const result = slope(data, size, size, 10, { noData });
+    const reference = slope(createRampWithVoid(size, size, size).data, size, size, 10);
+
+    // Cells two columns from the void see the plain ramp
+    expect(result.data[1]).toBeCloseTo(reference.data[1], 10);
+    // Cells next to the void see no cliff
+    expect(result.data[2]).toBeLessThan(reference.data[2]);
+    expect(Number.isNaN(result.data[3])).toBe(true);
+  });
+});
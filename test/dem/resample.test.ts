@@ -0,0 +1,101 @@
+/**
+ * Resample Tests
+ * Tests for grid resampling kernels
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createGrid,
+  resampleCell,
+  getResamplingMargin,
+  isResamplingMethod,
+  RESAMPLING_METHODS,
+} from '../../src/lib/dem';
+
+/**
+ * Creates a size×size grid from a function of cell-center coordinates.
+ */
+function createGridFrom(size: number, fn: (x: number, y: number) => number) {
+  const data: number[] = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      data.push(fn(x + 0.5, y + 0.5));
+    }
+  }
+  return createGrid(data, size, size);
+}
+
+describe('resampleCell', () => {
+  const plane = createGridFrom(8, (x, y) => 3 * x + 5 * y);
+
+  it('nearest picks the cell under the footprint center', () => {
+    const grid = createGrid([1, 2, 3, 4], 2, 2);
+
+    expect(resampleCell(grid, 0, 0, 2, 'nearest')).toBe(4);
+    expect(resampleCell(grid, 0, 0, 1, 'nearest')).toBe(1);
+  });
+
+  it.each(['bilinear', 'bicubic', 'area'] as const)(
+    '%s reproduces a plane at the footprint center',
+    (method) => {
+      // 2:1 downsampling footprint centered at (3, 4)
+      expect(resampleCell(plane, 2, 3, 2, method)).toBeCloseTo(3 * 3 + 5 * 4, 10);
+    }
+  );
+
+  it.each(['bilinear', 'bicubic', 'area'] as const)(
+    '%s reproduces a plane when upsampling',
+    (method) => {
+      // 1:2 upsampling footprint centered at (3.25, 4.75)
+      expect(resampleCell(plane, 3, 4.5, 0.5, method)).toBeCloseTo(3 * 3.25 + 5 * 4.75, 10);
+    }
+  );
+
+  it('max keeps the highest covered cell', () => {
+    const grid = createGrid([1, 2, 3, 4, 90, 6, 7, 8, 9], 3, 3);
+
+    expect(resampleCell(grid, 0, 0, 3, 'max')).toBe(90);
+    expect(resampleCell(grid, 0, 0, 2, 'area')).toBeLessThan(90);
+    // Partially covered cells count too
+    expect(resampleCell(grid, 1.5, 1.5, 1.5, 'max')).toBe(90);
+  });
+
+  it('area averages every covered cell', () => {
+    const grid = createGrid([0, 10, 20, 30, 40, 50, 60, 70, 80], 3, 3);
+
+    expect(resampleCell(grid, 0, 0, 3, 'area')).toBeCloseTo(40, 10);
+    // Partial coverage weights cells by overlap
+    expect(resampleCell(grid, 0.5, 0, 1, 'area')).toBeCloseTo(5, 10);
+  });
+
+  it('bicubic interpolates smooth curves more closely than bilinear', () => {
+    const curve = createGridFrom(8, (x) => x * x);
+    const exact = 3.25 * 3.25;
+
+    const bilinear = resampleCell(curve, 3, 3, 0.5, 'bilinear');
+    const bicubic = resampleCell(curve, 3, 3, 0.5, 'bicubic');
+
+    expect(Math.abs(bicubic - exact)).toBeLessThan(Math.abs(bilinear - exact));
+  });
+
+  it('clamps reads beyond the grid to the edge', () => {
+    const grid = createGrid(new Array(9).fill(7), 3, 3);
+
+    for (const method of RESAMPLING_METHODS) {
+      expect(resampleCell(grid, -1, -1, 2, method)).toBeCloseTo(7, 10);
+    }
+  });
+});
+
+describe('resampling helpers', () => {
+  it('reports kernel margins', () => {
+    expect(getResamplingMargin('nearest')).toBe(0);
+    expect(getResamplingMargin('bilinear')).toBe(1);
+    expect(getResamplingMargin('bicubic')).toBe(2);
+  });
+
+  it('recognizes method names', () => {
+    expect(isResamplingMethod('bicubic')).toBe(true);
+    expect(isResamplingMethod('lanczos')).toBe(false);
+  });
+});
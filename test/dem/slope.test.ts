@@ -0,0 +1,87 @@
+/**
+ * Slope Tests
+ * Tests for slope angle calculation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { slope, getResolution, getGroundResolution } from '../../src/lib/dem';
+
+/**
+ * Creates a planar ramp rising eastward by `rise` per cell.
+ */
+function createRamp(size: number, rise: number): number[] {
+  const dem: number[] = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      dem.push(x * rise);
+    }
+  }
+  return dem;
+}
+
+describe('slope', () => {
+  it('returns 0 degrees for flat terrain', () => {
+    const result = slope(new Array(25).fill(100), 5, 5, 10);
+
+    for (const value of result.data) {
+      expect(value).toBe(0);
+    }
+  });
+
+  it('returns 45 degrees when rise equals run', () => {
+    const result = slope(createRamp(5, 10), 5, 5, 10);
+
+    // Interior cell, away from clamped boundaries
+    expect(result.data[2 * 5 + 2]).toBeCloseTo(45, 6);
+  });
+
+  it('returns 30 degrees for a tan(30°) ramp', () => {
+    const rise = 10 * Math.tan(Math.PI / 6);
+    const result = slope(createRamp(5, rise), 5, 5, 10);
+
+    expect(result.data[2 * 5 + 2]).toBeCloseTo(30, 6);
+  });
+
+  it('is independent of gradient direction', () => {
+    const east = slope(createRamp(5, 10), 5, 5, 10);
+    const west = slope(createRamp(5, -10), 5, 5, 10);
+
+    expect(west.data[12]).toBeCloseTo(east.data[12], 10);
+  });
+
+  it('produces output in 0-90 range', () => {
+    const dem = new Array(100).fill(0).map(() => Math.random() * 1000);
+
+    const result = slope(dem, 10, 10, 1);
+
+    for (const value of result.data) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThanOrEqual(90);
+    }
+  });
+
+  describe('validation errors', () => {
+    it('throws on empty grid', () => {
+      expect(() => {
+        slope([], 3, 3, 1);
+      }).toThrow('Grid data cannot be null or empty');
+    });
+
+    it('throws on non-positive cell size', () => {
+      expect(() => {
+        slope(new Array(9).fill(0), 3, 3, 0);
+      }).toThrow('Cell size must be positive');
+    });
+  });
+});
+
+describe('getGroundResolution', () => {
+  it('equals getResolution at the equator', () => {
+    expect(getGroundResolution(10, 0)).toBeCloseTo(getResolution(10), 10);
+  });
+
+  it('halves resolution at 60 degrees latitude', () => {
+    expect(getGroundResolution(10, 60)).toBeCloseTo(getResolution(10) / 2, 6);
+    expect(getGroundResolution(10, -60)).toBeCloseTo(getResolution(10) / 2, 6);
+  });
+});
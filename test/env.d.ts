@@ -1,3 +1,7 @@
 declare module "cloudflare:test" {
-	interface ProvidedEnv extends Env {}
+	interface ProvidedEnv extends Env {
+		DEM_BUCKET: R2Bucket;
+		TILE_CACHE_BUCKET: R2Bucket;
+		DEM_BUCKET_KEY: string;
+	}
 }
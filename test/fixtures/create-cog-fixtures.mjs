@@ -0,0 +1,97 @@
+/**
+ * Creates the GeoTIFF fixtures used by the COG source tests.
+ *
+ * Both rasters cover tile 16/34118/23069 plus a quarter tile on every side,
+ * at 64 pixels per tile, with elevations on a plane so that interpolated
+ * values can be checked exactly:
+ *
+ * - dem-3857.tif: Web Mercator, elevation = 500 + 0.05 * dx - 0.02 * dy
+ *   (meters from the tile's south-west corner), with a 4×4 NoData block
+ * - dem-4326.tif: WGS84, elevation = 1000 + 2000 * dlon + 3000 * dlat
+ *   (degrees from the tile's south-west corner)
+ *
+ * Usage: node test/fixtures/create-cog-fixtures.mjs
+ */
+
+import { writeFileSync } from 'node:fs';
+import { writeArrayBuffer } from 'geotiff';
+
+const Z = 16;
+const X = 34118;
+const Y = 23069;
+const PIXELS_PER_TILE = 64;
+const MARGIN = PIXELS_PER_TILE / 4;
+const SIZE = PIXELS_PER_TILE + 2 * MARGIN;
+const NODATA = -9999;
+
+const ORIGIN_SHIFT = Math.PI * 6378137;
+const tileSize = (2 * ORIGIN_SHIFT) / 2 ** Z;
+const minX = -ORIGIN_SHIFT + X * tileSize;
+const minY = ORIGIN_SHIFT - (Y + 1) * tileSize;
+const maxY = ORIGIN_SHIFT - Y * tileSize;
+
+const west = (X / 2 ** Z) * 360 - 180;
+const east = ((X + 1) / 2 ** Z) * 360 - 180;
+const north = (Math.atan(Math.sinh(Math.PI * (1 - (2 * Y) / 2 ** Z))) * 180) / Math.PI;
+const south = (Math.atan(Math.sinh(Math.PI * (1 - (2 * (Y + 1)) / 2 ** Z))) * 180) / Math.PI;
+
+function createRaster(originX, originY, resX, resY, elevation) {
+  const values = new Float32Array(SIZE * SIZE);
+  for (let row = 0; row < SIZE; row++) {
+    for (let col = 0; col < SIZE; col++) {
+      values[row * SIZE + col] = elevation(originX + (col + 0.5) * resX, originY - (row + 0.5) * resY);
+    }
+  }
+  return values;
+}
+
+// Web Mercator
+{
+  const res = tileSize / PIXELS_PER_TILE;
+  const originX = minX - MARGIN * res;
+  const originY = maxY + MARGIN * res;
+  const values = createRaster(originX, originY, res, res, (x, y) => 500 + 0.05 * (x - minX) - 0.02 * (y - minY));
+  for (let row = 40; row < 44; row++) {
+    values.fill(NODATA, row * SIZE + 40, row * SIZE + 44);
+  }
+
+  writeFileSync(
+    new URL('./dem-3857.tif', import.meta.url),
+    Buffer.from(
+      writeArrayBuffer(values, {
+        width: SIZE,
+        height: SIZE,
+        ModelPixelScale: [res, res, 0],
+        ModelTiepoint: [0, 0, 0, originX, originY, 0],
+        GTModelTypeGeoKey: 1,
+        GTRasterTypeGeoKey: 1,
+        ProjectedCSTypeGeoKey: 3857,
+        GDAL_NODATA: String(NODATA),
+      })
+    )
+  );
+}
+
+// WGS84
+{
+  const resX = (east - west) / PIXELS_PER_TILE;
+  const resY = (north - south) / PIXELS_PER_TILE;
+  const originX = west - MARGIN * resX;
+  const originY = north + MARGIN * resY;
+  const values = createRaster(originX, originY, resX, resY, (lon, lat) => 1000 + 2000 * (lon - west) + 3000 * (lat - south));
+
+  writeFileSync(
+    new URL('./dem-4326.tif', import.meta.url),
+    Buffer.from(
+      writeArrayBuffer(values, {
+        width: SIZE,
+        height: SIZE,
+        ModelPixelScale: [resX, resY, 0],
+        ModelTiepoint: [0, 0, 0, originX, originY, 0],
+        GTModelTypeGeoKey: 2,
+        GTRasterTypeGeoKey: 1,
+        GeographicTypeGeoKey: 4326,
+      })
+    )
+  );
+}
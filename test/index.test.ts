@@ -1,5 +1,40 @@
-import { SELF } from "cloudflare:test";
-import { describe, it, expect } from "vitest";
+import { env, SELF, createExecutionContext, waitOnExecutionContext, fetchMock } from "cloudflare:test";
+import { describe, it, expect, beforeAll } from "vitest";
+import { PhotonImage } from "@cf-wasm/photon";
+import app from "../src/worker";
+import { CACHE_VERSION } from "../src/lib/tiles/types";
+import { parseTerrainParams, getTerrainCacheKey } from "../src/worker/terrain-params";
+import { processContours } from "../src/worker/routes/terrain";
+import { getTileCacheKey } from "../src/worker/tile-cache";
+import { createR2TileStore, createR2RangeSource } from "../src/worker/r2-store";
+import { UpstreamError } from "../src/lib/tiles/upstream";
+import { PALETTES } from "../src/lib/style";
+
+/**
+ * Encodes a PNG tile of a constant Terrarium elevation.
+ */
+function createTerrariumPng(elevation: number, size = 4): Uint8Array {
+	const value = elevation + 32768;
+	const pixels = new Uint8Array(size * size * 4);
+	for (let i = 0; i < pixels.length; i += 4) {
+		pixels.set([Math.floor(value / 256), Math.floor(value % 256), Math.round((value % 1) * 256), 255], i);
+	}
+	const image = new PhotonImage(pixels, size, size);
+	const png = image.get_bytes();
+	image.free();
+	return png;
+}
+
+/**
+ * Requests a URL from the worker with overridden variables, waiting for its
+ * background tasks such as cache writes.
+ */
+async function fetchWithEnv(url: string, vars: Record<string, string>): Promise<Response> {
+	const ctx = createExecutionContext();
+	const response = await app.request(url, {}, { ...env, ...vars }, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
 
 describe("Worker API", () => {
 	it("returns JSON response from /api/", async () => {
@@ -14,4 +49,442 @@ describe("Worker API", () => {
 		const response = await SELF.fetch("http://localhost/unknown");
 		expect(response.status).toBe(404);
 	});
+
+	it("returns TileJSON for the terrain source", async () => {
+		const response = await SELF.fetch("http://localhost/tiles/terrain.json?units=ft");
+		expect(response.status).toBe(200);
+
+		const json = (await response.json()) as { tiles: string[]; vector_layers: { id: string }[] };
+		expect(json.tiles).toEqual(["http://localhost/tiles/terrain/{z}/{x}/{y}.mvt?units=ft"]);
+		expect(json.vector_layers.map((layer) => layer.id)).toContain("contour");
+	});
+
+	it("returns a MapLibre style for the terrain tiles", async () => {
+		const response = await SELF.fetch("http://localhost/styles/terrain.json?palette=dark&layers=slope,contour&units=ft");
+		expect(response.status).toBe(200);
+
+		const json = (await response.json()) as {
+			sources: { terrain: { tiles: string[] } };
+			layers: { id: string }[];
+		};
+		expect(json.sources.terrain.tiles).toEqual(["http://localhost/tiles/terrain/{z}/{x}/{y}.mvt?units=ft"]);
+		expect(json.layers.map((layer) => layer.id)).toEqual(["background", "slope", "contour-lines", "contour-index"]);
+	});
+
+	it("ramps the style's slope colors over SLOPE_BREAKS", async () => {
+		const response = await fetchWithEnv("http://localhost/styles/terrain.json?layers=slope", { SLOPE_BREAKS: "20,25,60" });
+		expect(response.status).toBe(200);
+
+		const json = (await response.json()) as { layers: { id: string; paint?: Record<string, unknown> }[] };
+		const slope = json.layers.find((layer) => layer.id === "slope");
+		expect(slope?.paint?.["fill-color"]).toEqual(["interpolate", ["linear"], ["get", "minDeg"], 20, PALETTES.earth.slope[0], 60, PALETTES.earth.slope[1]]);
+	});
+
+	it.each([
+		["palette=neon", "Palette must be one of earth, grey, dark"],
+		["layers=contour,roads", "Layers must be a list of hillshade, slope, aspect, contour"],
+	])("rejects style %s with 400", async (query, details) => {
+		const response = await SELF.fetch(`http://localhost/styles/terrain.json?${query}`);
+		expect(response.status).toBe(400);
+
+		const json = await response.json();
+		expect(json).toEqual({ error: "Invalid query parameters", details });
+	});
+
+	describe("elevation queries", () => {
+		it.each([
+			["lon=7.45", "lat is required"],
+			["lat=north&lon=7.45", "lat must be a number"],
+			["lat=46.95&lon=190", "Longitude must be between -180 and 180 degrees"],
+			["lat=46.95&lon=7.45&z=23", "Zoom must be an integer between 0 and 22"],
+		])("rejects %s with 400", async (query, details) => {
+			const response = await SELF.fetch(`http://localhost/api/elevation?${query}`);
+			expect(response.status).toBe(400);
+
+			const json = await response.json();
+			expect(json).toEqual({ error: "Invalid query parameters", details });
+		});
+
+		it.each([
+			[{}, "points must be a non-empty array"],
+			[{ points: [{ lat: 46.95 }] }, "Each point must have numeric lat and lon"],
+			[{ points: Array(101).fill({ lat: 46.95, lon: 7.45 }) }, "At most 100 points are allowed"],
+		])("rejects batch body %j with 400", async (body, details) => {
+			const response = await SELF.fetch("http://localhost/api/elevation", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify(body),
+			});
+			expect(response.status).toBe(400);
+
+			const json = await response.json();
+			expect(json).toEqual({ error: "Invalid request body", details });
+		});
+	});
+
+	describe("profile queries", () => {
+		const line = { type: "LineString", coordinates: [[7.44, 46.95], [7.46, 46.95]] };
+
+		it.each([
+			[{}, "line must be a GeoJSON LineString"],
+			[{ line: { type: "LineString", coordinates: [[7.44, 46.95]] } }, "Line must have at least 2 positions"],
+			[{ line, spacing: 0 }, "Spacing must be positive"],
+			[{ line: { type: "LineString", coordinates: [[7.44, 89], [7.46, 89]] } }, "Latitude must be between -85.051129 and 85.051129 degrees"],
+			[{ line, spacing: 0.5 }, "Line produces 3038 samples, more than the 2000 allowed; increase spacing"],
+			[{ line: { type: "LineString", coordinates: [[7, 46], [8, 46]] }, spacing: 100, z: 14 }, "Points span 47 tiles at zoom 14, more than the 32 allowed; use a lower zoom"],
+		])("rejects body %j with 400", async (body, details) => {
+			const response = await SELF.fetch("http://localhost/api/profile", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify(body),
+			});
+			expect(response.status).toBe(400);
+
+			const json = await response.json();
+			expect(json).toEqual({ error: "Invalid request body", details });
+		});
+	});
+
+	describe("terrain query parameters", () => {
+		it.each([
+			["altitude=91", "Altitude must be between 0 and 90 degrees"],
+			["azimuth=-10", "Azimuth must be between 0 and 360 degrees"],
+			["azimuth=east", "azimuth must be a number"],
+			["bands=1", "Bands must be an integer between 2 and 64"],
+			["bands=8.5", "Bands must be an integer between 2 and 64"],
+			["interval=0", "Interval must be positive"],
+			["indexEvery=0", "indexEvery must be a positive integer"],
+			["minElevation=2000&maxElevation=1000", "Elevation range must satisfy -500 <= minElevation < maxElevation <= 9000"],
+			["interval=10", "Contour settings produce 950 levels, more than the 475 allowed at zoom 12"],
+			["units=yd", "Units must be 'm' or 'ft'"],
+			["units=ft&maxElevation=30000", "Elevation range must satisfy -1641 <= minElevation < maxElevation <= 29528"],
+		])("rejects %s with 400", async (query, details) => {
+			const response = await SELF.fetch(`http://localhost/tiles/terrain/12/2130/1446.mvt?${query}`);
+			expect(response.status).toBe(400);
+
+			const json = await response.json();
+			expect(json).toEqual({ error: "Invalid query parameters", details });
+		});
+	});
+
+	describe("contour features", () => {
+		const size = 16;
+		// Eastward ramp rising 10 m per cell, from 5 m to 155 m
+		const grid = Float64Array.from({ length: size * size }, (_, i) => 5 + (i % size) * 10);
+
+		function contours(query: Record<string, string>): { level: number; level_m: number; index: boolean }[] {
+			const params = parseTerrainParams(query, 12, env as unknown as Record<string, string>);
+			const features = processContours(grid, size, size, undefined, params);
+			return features
+				.map((feature) => feature.properties as { level: number; level_m: number; index: boolean })
+				.sort((a, b) => a.level - b.level);
+		}
+
+		it("flags every indexEvery-th level as an index contour", () => {
+			expect(contours({ interval: "20", indexEvery: "3" })).toEqual(
+				[20, 40, 60, 80, 100, 120, 140].map((level) => ({ level, level_m: level, index: level % 60 === 0 })),
+			);
+		});
+
+		it("labels feet contours in feet and meters", () => {
+			const features = contours({ units: "ft", interval: "100", indexEvery: "5" });
+
+			expect(features.map((feature) => feature.level)).toEqual([100, 200, 300, 400, 500]);
+			expect(features.map((feature) => feature.index)).toEqual([false, false, false, false, true]);
+			for (const feature of features) {
+				expect(feature.level_m).toBeCloseTo(feature.level * 0.3048, 9);
+			}
+		});
+
+		it("limits levels to the elevation range", () => {
+			const levels = contours({ interval: "20", minElevation: "50", maxElevation: "120" }).map((feature) => feature.level);
+
+			expect(levels).toEqual([60, 80, 100]);
+		});
+	});
+
+	describe("R2 DEM tiles", () => {
+		it("reads tiles by key template", async () => {
+			await env.DEM_BUCKET.put("store/3/4/2.png", new Uint8Array([1, 2, 3]));
+			const store = createR2TileStore(env.DEM_BUCKET, "store/{z}/{x}/{y}.png");
+
+			expect(new Uint8Array((await store.getTile(3, 4, 2))!)).toEqual(new Uint8Array([1, 2, 3]));
+			expect(await store.getTile(3, 4, 3)).toBeNull();
+		});
+
+		it("reads byte ranges for PMTiles archives", async () => {
+			await env.DEM_BUCKET.put("archive.pmtiles", Uint8Array.from({ length: 100 }, (_, i) => i));
+			const source = createR2RangeSource(env.DEM_BUCKET, "archive.pmtiles");
+
+			const { data } = await source.getBytes(10, 5);
+			expect(new Uint8Array(data)).toEqual(new Uint8Array([10, 11, 12, 13, 14]));
+			await expect(createR2RangeSource(env.DEM_BUCKET, "missing.pmtiles").getBytes(0, 1)).rejects.toThrow(
+				"PMTiles archive missing.pmtiles not found in DEM_BUCKET",
+			);
+		});
+
+		it("reports failed bucket reads as upstream errors", async () => {
+			const failing = { get: () => Promise.reject(new Error("R2 unavailable")) } as unknown as R2Bucket;
+
+			await expect(createR2TileStore(failing, "dem/{z}/{x}/{y}.png").getTile(3, 4, 2)).rejects.toThrow(
+				new UpstreamError("Failed to read dem/3/4/2.png from DEM_BUCKET: Error: R2 unavailable"),
+			);
+			await expect(createR2RangeSource(failing, "archive.pmtiles").getBytes(0, 1)).rejects.toBeInstanceOf(UpstreamError);
+		});
+
+		it("samples elevations from tiles in the bucket", async () => {
+			await env.DEM_BUCKET.put("dem/12/2132/1441.png", createTerrariumPng(541));
+
+			const response = await SELF.fetch("http://localhost/api/elevation?lat=46.95&lon=7.45&z=12");
+			expect(response.status).toBe(200);
+
+			const json = (await response.json()) as { elevation: number; tile: { z: number; x: number; y: number } };
+			expect(json.tile).toEqual({ z: 12, x: 2132, y: 1441 });
+			expect(json.elevation).toBeCloseTo(541, 6);
+		});
+	});
+
+	describe("upstream DEM failures", () => {
+		beforeAll(() => {
+			fetchMock.activate();
+			fetchMock.disableNetConnect();
+		});
+
+		/**
+		 * Requests a terrain tile with source tiles fetched from `origin`.
+		 */
+		function fetchTerrain(origin: string, vars: Record<string, string> = {}): Promise<Response> {
+			return fetchWithEnv("http://localhost/tiles/terrain/12/2130/1446.mvt", {
+				DEM_BUCKET_KEY: "",
+				DEM_TILE_URL: `${origin}/{z}/{x}/{y}.png`,
+				CACHE_ENABLED: "false",
+				...vars,
+			});
+		}
+
+		it("returns 502 without caching when the upstream fails", async () => {
+			fetchMock.get("https://failing.test").intercept({ path: /.*/ }).reply(503, "").persist();
+
+			const response = await fetchTerrain("https://failing.test");
+			expect(response.status).toBe(502);
+			expect(response.headers.get("Cache-Control")).toBe("no-store");
+
+			const json = (await response.json()) as { error: string; details: string };
+			expect(json.error).toBe("Failed to fetch DEM tiles");
+			expect(json.details).toMatch(/^Upstream responded 503 for https:\/\/failing\.test\/12\//);
+		});
+
+		it("returns 502 when the upstream refuses requests", async () => {
+			fetchMock.get("https://forbidden.test").intercept({ path: /.*/ }).reply(403, "").persist();
+
+			const response = await fetchTerrain("https://forbidden.test");
+			expect(response.status).toBe(502);
+			expect(response.headers.get("Cache-Control")).toBe("no-store");
+		});
+
+		it("returns 504 when the upstream times out", async () => {
+			fetchMock.get("https://slow.test").intercept({ path: /.*/ }).reply(200, "").delay(200).persist();
+
+			const response = await fetchTerrain("https://slow.test", { DEM_TIMEOUT_MS: "20" });
+			expect(response.status).toBe(504);
+		});
+
+		it("applies DEM_TIMEOUT_MS to DEM_COG_URL", async () => {
+			fetchMock.get("https://slow-cog.test").intercept({ path: /.*/ }).reply(206, "").delay(200).persist();
+
+			const response = await fetchTerrain("https://unused.test", { DEM_COG_URL: "https://slow-cog.test/dem.tif", DEM_TIMEOUT_MS: "20" });
+			expect(response.status).toBe(504);
+			expect(response.headers.get("Cache-Control")).toBe("no-store");
+		});
+
+		it("returns 502 without caching when elevation queries hit a failing upstream", async () => {
+			fetchMock.get("https://failing-points.test").intercept({ path: /.*/ }).reply(503, "").persist();
+			const vars = { DEM_BUCKET_KEY: "", DEM_TILE_URL: "https://failing-points.test/{z}/{x}/{y}.png" };
+
+			const point = await fetchWithEnv("http://localhost/api/elevation?lat=46.95&lon=7.45&z=12", vars);
+			expect(point.status).toBe(502);
+			expect(point.headers.get("Cache-Control")).toBe("no-store");
+			expect(((await point.json()) as { error: string }).error).toBe("Failed to fetch DEM tiles");
+
+			const batch = await app.request(
+				"http://localhost/api/elevation",
+				{ method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ points: [{ lat: 46.95, lon: 7.45 }], z: 12 }) },
+				{ ...env, ...vars },
+			);
+			expect(batch.status).toBe(502);
+			expect(batch.headers.get("Cache-Control")).toBe("no-store");
+		});
+
+		it("returns 502 without caching when profiles hit a failing upstream", async () => {
+			fetchMock.get("https://failing-profile.test").intercept({ path: /.*/ }).reply(503, "").persist();
+
+			const response = await app.request(
+				"http://localhost/api/profile",
+				{
+					method: "POST",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify({ line: { type: "LineString", coordinates: [[7.44, 46.95], [7.46, 46.95]] }, z: 12 }),
+				},
+				{ ...env, DEM_BUCKET_KEY: "", DEM_TILE_URL: "https://failing-profile.test/{z}/{x}/{y}.png" },
+			);
+			expect(response.status).toBe(502);
+			expect(response.headers.get("Cache-Control")).toBe("no-store");
+		});
+
+		it("applies DEM_UNDERZOOM to DEM_SOURCES tiles", async () => {
+			// Only the deeper zoom fails, so the status shows which zoom was read
+			fetchMock.get("https://underzoom.test").intercept({ path: /^\/6\// }).reply(503, "").persist();
+			fetchMock.get("https://underzoom.test").intercept({ path: /^\/5\// }).reply(404, "").persist();
+			const vars = {
+				DEM_SOURCES: '[{"type":"tiles","url":"https://underzoom.test/{z}/{x}/{y}.png"}]',
+				CACHE_ENABLED: "false",
+			};
+
+			const direct = await fetchWithEnv("http://localhost/tiles/terrain/5/16/11.mvt", vars);
+			expect(direct.status).toBe(200);
+			await direct.arrayBuffer();
+
+			const underzoomed = await fetchWithEnv("http://localhost/tiles/terrain/5/16/11.mvt", { ...vars, DEM_UNDERZOOM: "5-5:1:max" });
+			expect(underzoomed.status).toBe(502);
+		});
+
+		it("treats missing tiles as NoData", async () => {
+			fetchMock.get("https://empty.test").intercept({ path: /.*/ }).reply(404, "").persist();
+
+			const response = await fetchTerrain("https://empty.test");
+			expect(response.status).toBe(200);
+			expect(response.headers.get("Content-Type")).toBe("application/vnd.mapbox-vector-tile");
+		});
+
+		it("samples elevations from the DEM_SOURCES composite", async () => {
+			fetchMock.get("https://lidar.test").intercept({ path: /.*/ }).reply(200, createTerrariumPng(1234)).persist();
+
+			const response = await fetchWithEnv("http://localhost/api/elevation?lat=46.95&lon=7.45&z=12", {
+				DEM_SOURCES: '[{"type":"tiles","url":"https://lidar.test/{z}/{x}/{y}.png"}]',
+			});
+			expect(response.status).toBe(200);
+
+			const json = (await response.json()) as { elevation: number };
+			expect(json.elevation).toBeCloseTo(1234, 6);
+		});
+
+		it("overzooms DEM_SOURCES entries beyond their maxSourceZoom", async () => {
+			fetchMock.get("https://coarse.test").intercept({ path: /^\/10\// }).reply(200, createTerrariumPng(567, 512)).persist();
+
+			const response = await fetchWithEnv("http://localhost/api/elevation?lat=46.95&lon=7.45&z=12", {
+				DEM_SOURCES: '[{"type":"tiles","url":"https://coarse.test/{z}/{x}/{y}.png","maxSourceZoom":10}]',
+			});
+			expect(response.status).toBe(200);
+
+			const json = (await response.json()) as { elevation: number };
+			expect(json.elevation).toBeCloseTo(567, 6);
+		});
+
+		it("serves degraded tiles briefly and keeps them out of the bucket", async () => {
+			fetchMock.get("https://broken.test").intercept({ path: /.*/ }).reply(503, "").persist();
+			fetchMock.get("https://fallback.test").intercept({ path: /.*/ }).reply(404, "").persist();
+
+			const response = await fetchWithEnv("http://localhost/tiles/terrain/12/2130/1446.mvt?interval=100", {
+				DEM_SOURCES: JSON.stringify([
+					{ type: "tiles", url: "https://broken.test/{z}/{x}/{y}.png" },
+					{ type: "tiles", url: "https://fallback.test/{z}/{x}/{y}.png" },
+				]),
+				DEM_TIMEOUT_MS: "1000",
+			});
+			expect(response.status).toBe(200);
+			expect(response.headers.get("Cache-Control")).toBe("public, max-age=60");
+			await response.arrayBuffer();
+
+			const params = parseTerrainParams({ interval: "100" }, 12, env as unknown as Record<string, string>);
+			const key = getTileCacheKey(getTerrainCacheKey({ z: 12, x: 2130, y: 1446 }, params));
+			expect(await env.TILE_CACHE_BUCKET.head(key)).toBeNull();
+		});
+
+		it("fails requests when DEM_SOURCES is malformed", async () => {
+			const response = await fetchTerrain("https://lidar.test", { DEM_SOURCES: '[{"type":"ftp","url":"ftp://lidar.test"}]' });
+			expect(response.status).toBe(500);
+
+			const json = (await response.json()) as { details: string };
+			expect(json.details).toBe("Error: Invalid DEM_SOURCES: malformed source at index 0");
+		});
+	});
+
+	describe("persistent tile cache", () => {
+		/**
+		 * Returns the bucket key of a terrain tile with default parameters.
+		 */
+		function cacheKey(z: number, x: number, y: number): string {
+			const params = parseTerrainParams({}, z, env as unknown as Record<string, string>);
+			return getTileCacheKey(getTerrainCacheKey({ z, x, y }, params));
+		}
+
+		it("keys tiles by CACHE_VERSION", () => {
+			expect(cacheKey(14, 8530, 5790)).toMatch(new RegExp(`^${CACHE_VERSION}/terrain/14/8530/5790\\.mvt\\?`));
+		});
+
+		it("stores generated tiles in the bucket", async () => {
+			const response = await fetchWithEnv("http://localhost/tiles/terrain/14/8530/5790.mvt", { TILE_CACHE_TTL: "60" });
+			expect(response.status).toBe(200);
+			const tile = new Uint8Array(await response.arrayBuffer());
+
+			const object = await env.TILE_CACHE_BUCKET.get(cacheKey(14, 8530, 5790));
+			expect(object).not.toBeNull();
+			expect(new Uint8Array(await object!.arrayBuffer())).toEqual(tile);
+			expect(Number(object!.customMetadata?.expires)).toBeGreaterThan(Date.now() + 50_000);
+			expect(Number(object!.customMetadata?.expires)).toBeLessThanOrEqual(Date.now() + 60_000);
+		});
+
+		it("serves tiles from the bucket on a Cache API miss", async () => {
+			const stored = new Uint8Array([26, 0]);
+			await env.TILE_CACHE_BUCKET.put(cacheKey(14, 8531, 5790), stored, {
+				customMetadata: { expires: String(Date.now() + 60_000), compressed: "false" },
+			});
+
+			const response = await fetchWithEnv("http://localhost/tiles/terrain/14/8531/5790.mvt", {});
+			expect(response.status).toBe(200);
+			expect(response.headers.get("Content-Type")).toBe("application/vnd.mapbox-vector-tile");
+			expect(new Uint8Array(await response.arrayBuffer())).toEqual(stored);
+		});
+
+		it("generates tiles when the bucket fails", async () => {
+			const failing = {
+				get: () => Promise.reject(new Error("R2 unavailable")),
+				put: () => Promise.reject(new Error("R2 unavailable")),
+			};
+
+			const response = await fetchWithEnv("http://localhost/tiles/terrain/14/8533/5790.mvt", {
+				TILE_CACHE_BUCKET: failing as unknown as string,
+			});
+			expect(response.status).toBe(200);
+			expect(response.headers.get("Content-Type")).toBe("application/vnd.mapbox-vector-tile");
+		});
+
+		it("regenerates corrupt compressed tiles", async () => {
+			const key = cacheKey(14, 8534, 5790);
+			await env.TILE_CACHE_BUCKET.put(key, new Uint8Array([26, 0]), {
+				customMetadata: { expires: String(Date.now() + 60_000), compressed: "true" },
+			});
+
+			const response = await fetchWithEnv("http://localhost/tiles/terrain/14/8534/5790.mvt", {
+				COMPRESSION_ENABLED: "true",
+			});
+			expect(response.status).toBe(200);
+			const tile = new Uint8Array(await response.arrayBuffer());
+			expect([...tile.subarray(0, 2)]).toEqual([0x1f, 0x8b]);
+		});
+
+		it("regenerates expired tiles", async () => {
+			const key = cacheKey(14, 8532, 5790);
+			await env.TILE_CACHE_BUCKET.put(key, new Uint8Array([26, 0]), {
+				customMetadata: { expires: String(Date.now() - 1000), compressed: "false" },
+			});
+
+			const response = await fetchWithEnv("http://localhost/tiles/terrain/14/8532/5790.mvt", {});
+			expect(response.status).toBe(200);
+			expect(new Uint8Array(await response.arrayBuffer())).not.toEqual(new Uint8Array([26, 0]));
+
+			const object = await env.TILE_CACHE_BUCKET.head(key);
+			expect(Number(object!.customMetadata?.expires)).toBeGreaterThan(Date.now());
+		});
+	});
 });
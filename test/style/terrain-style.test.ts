@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTerrainStyle,
+  isPaletteName,
+  isStyleLayerGroup,
+  PALETTES,
+  STYLE_LAYER_IDS,
+  TERRAIN_SOURCE,
+} from '../../src/lib/style';
+
+const tileUrl = 'https://example.com/tiles/terrain/{z}/{x}/{y}.mvt';
+
+describe('buildTerrainStyle', () => {
+  it('should point the terrain source at the tile URL', () => {
+    const style = buildTerrainStyle({ tileUrl });
+
+    expect(style.version).toBe(8);
+    expect(style.sources[TERRAIN_SOURCE]).toMatchObject({ type: 'vector', tiles: [tileUrl] });
+  });
+
+  it('should include hillshade and contour layers by default', () => {
+    const ids = buildTerrainStyle({ tileUrl }).layers.map((layer) => layer.id);
+
+    expect(ids).toEqual(['background', ...STYLE_LAYER_IDS.hillshade, ...STYLE_LAYER_IDS.contour]);
+  });
+
+  it('should emit requested layers in drawing order', () => {
+    const style = buildTerrainStyle({ tileUrl, layers: ['contour', 'aspect', 'slope'] });
+    const ids = style.layers.map((layer) => layer.id);
+
+    expect(ids).toEqual([
+      'background',
+      ...STYLE_LAYER_IDS.slope,
+      ...STYLE_LAYER_IDS.aspect,
+      ...STYLE_LAYER_IDS.contour,
+    ]);
+  });
+
+  it('should reference the terrain source from every data layer', () => {
+    const style = buildTerrainStyle({ tileUrl, layers: ['hillshade', 'slope', 'aspect', 'contour'] });
+
+    for (const layer of style.layers.filter((layer) => layer.type !== 'background')) {
+      expect(layer.source).toBe(TERRAIN_SOURCE);
+      expect(layer['source-layer']).toBeDefined();
+    }
+  });
+
+  it('should apply palette colors', () => {
+    const style = buildTerrainStyle({ tileUrl, palette: 'dark' });
+    const background = style.layers.find((layer) => layer.id === 'background');
+    const index = style.layers.find((layer) => layer.id === 'contour-index');
+
+    expect(background).toMatchObject({ paint: { 'background-color': PALETTES.dark.background } });
+    expect(index).toMatchObject({ paint: { 'line-color': PALETTES.dark.contourIndex } });
+  });
+
+  it('should ramp slope colors over the slope breaks', () => {
+    const slope = (slopeBreaks?: number[]) =>
+      buildTerrainStyle({ tileUrl, layers: ['slope'], slopeBreaks }).layers.find(
+        (layer) => layer.id === 'slope'
+      );
+    const [gentle, steep] = PALETTES.earth.slope;
+
+    expect(slope([20, 35, 50])).toMatchObject({
+      paint: { 'fill-color': ['interpolate', ['linear'], ['get', 'minDeg'], 20, gentle, 50, steep] },
+    });
+    expect(slope([30])).toMatchObject({ paint: { 'fill-color': gentle } });
+    expect(slope()).toMatchObject({
+      paint: { 'fill-color': ['interpolate', ['linear'], ['get', 'minDeg'], 30, gentle, 45, steep] },
+    });
+  });
+});
+
+describe('style option guards', () => {
+  it('should recognize palette names', () => {
+    expect(isPaletteName('earth')).toBe(true);
+    expect(isPaletteName('neon')).toBe(false);
+    expect(isPaletteName('toString')).toBe(false);
+  });
+
+  it('should recognize layer groups', () => {
+    expect(isStyleLayerGroup('slope')).toBe(true);
+    expect(isStyleLayerGroup('roads')).toBe(false);
+  });
+});
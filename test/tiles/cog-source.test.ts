@@ -0,0 +1,219 @@
+/**
+ * CogSource Tests
+ *
+ * Tests for reading web mercator tiles from GeoTIFFs, using the planar
+ * fixtures created by test/fixtures/create-cog-fixtures.mjs.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { writeArrayBuffer } from 'geotiff';
+import { CogSource } from '../../src/lib/tiles/cog-source';
+import { tileToMercatorBounds } from '../../src/lib/tiles/fetcher';
+import { SOURCE_TILE_SIZE } from '../../src/lib/tiles/types';
+import { UpstreamError } from '../../src/lib/tiles/upstream';
+
+const TILE_SIZE = 256;
+const BUFFER_PX = 8;
+const COORD = { z: 16, x: 34118, y: 23069 };
+
+function loadFixture(name: string): ArrayBuffer {
+  const buffer = readFileSync(resolve(import.meta.dirname, '../fixtures', name));
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+}
+
+/**
+ * Returns the Web Mercator coordinates of a buffered output pixel center.
+ */
+function pixelCenter(ox: number, oy: number): { x: number; y: number } {
+  const bounds = tileToMercatorBounds(COORD.z, COORD.x, COORD.y);
+  const size = (bounds.maxX - bounds.minX) / TILE_SIZE;
+  return {
+    x: bounds.minX + (ox - BUFFER_PX + 0.5) * size,
+    y: bounds.maxY - (oy - BUFFER_PX + 0.5) * size,
+  };
+}
+
+describe('CogSource', () => {
+  describe('EPSG:3857', () => {
+    const source = new CogSource(loadFixture('dem-3857.tif'));
+
+    it('returns a buffered grid', async () => {
+      const tile = await source.fetchTile(COORD, BUFFER_PX);
+
+      expect(tile.width).toBe(TILE_SIZE + 2 * BUFFER_PX);
+      expect(tile.height).toBe(TILE_SIZE + 2 * BUFFER_PX);
+      expect(tile.bufferPx).toBe(BUFFER_PX);
+      expect(tile.grid).toHaveLength(tile.width * tile.height);
+    });
+
+    it('interpolates elevations at output pixel centers', async () => {
+      const tile = await source.fetchTile(COORD, BUFFER_PX);
+      const bounds = tileToMercatorBounds(COORD.z, COORD.x, COORD.y);
+
+      for (const [ox, oy] of [
+        [0, 0],
+        [50, 200],
+        [200, 50],
+        [271, 271],
+      ]) {
+        const { x, y } = pixelCenter(ox, oy);
+        const expected = 500 + 0.05 * (x - bounds.minX) - 0.02 * (y - bounds.minY);
+        expect(tile.grid[oy * tile.width + ox]).toBeCloseTo(expected, 3);
+      }
+    });
+
+    it('masks NoData cells', async () => {
+      const tile = await source.fetchTile(COORD, 0);
+      // Output pixel 103 lies between raster cells 41 and 42 of the NoData block
+      const i = 103 * tile.width + 103;
+
+      expect(Number.isNaN(tile.grid[i])).toBe(true);
+      expect(tile.noData?.[i]).toBe(1);
+      expect(tile.noData?.[0]).toBe(0);
+    });
+
+    it('marks pixels outside the raster as NoData', async () => {
+      // The raster covers the western quarter of the eastern neighbor
+      const tile = await source.fetchTile({ ...COORD, x: COORD.x + 1 }, 0);
+
+      expect(Number.isNaN(tile.grid[10])).toBe(false);
+      expect(Number.isNaN(tile.grid[200])).toBe(true);
+      expect(tile.noData?.[200]).toBe(1);
+    });
+
+    it('returns an empty grid for tiles without overlap', async () => {
+      const tile = await source.fetchTile({ z: 16, x: 0, y: 0 }, 0);
+
+      expect(tile.grid.every(Number.isNaN)).toBe(true);
+      expect(tile.noData?.every((value) => value === 1)).toBe(true);
+    });
+
+    it('reads source tiles at SOURCE_TILE_SIZE for point queries', async () => {
+      const tile = await source.fetchSourceTile(COORD);
+      const bounds = tileToMercatorBounds(COORD.z, COORD.x, COORD.y);
+      const size = (bounds.maxX - bounds.minX) / SOURCE_TILE_SIZE;
+
+      expect(tile.width).toBe(SOURCE_TILE_SIZE);
+      expect(tile.height).toBe(SOURCE_TILE_SIZE);
+      const x = bounds.minX + 10.5 * size;
+      const y = bounds.maxY - 20.5 * size;
+      const expected = 500 + 0.05 * (x - bounds.minX) - 0.02 * (y - bounds.minY);
+      expect(tile.data[20 * tile.width + 10]).toBeCloseTo(expected, 3);
+    });
+
+    it('reads tiles needing too many cells as NoData', async () => {
+      // The fixture has no overviews: COORD reads about 68×68 cells, its parent 96×96
+      const limited = new CogSource(loadFixture('dem-3857.tif'), { maxWindowCells: 6000 });
+      const parent = { z: COORD.z - 1, x: COORD.x >> 1, y: COORD.y >> 1 };
+
+      const tile = await limited.fetchTile(parent, 0);
+
+      expect(tile.grid.every(Number.isNaN)).toBe(true);
+      expect(Number.isNaN((await limited.fetchTile(COORD, 0)).grid[0])).toBe(false);
+    });
+
+    it('samples the nearest cell', async () => {
+      const nearest = new CogSource(loadFixture('dem-3857.tif'), { resampling: 'nearest' });
+      const tile = await nearest.fetchTile(COORD, 0);
+
+      // Four output pixels share each raster cell
+      expect(tile.grid[1]).toBe(tile.grid[2]);
+      expect(tile.grid[4]).not.toBe(tile.grid[3]);
+    });
+  });
+
+  describe('EPSG:4326', () => {
+    const source = new CogSource(loadFixture('dem-4326.tif'));
+
+    it('reprojects into the mercator tile', async () => {
+      const tile = await source.fetchTile(COORD, BUFFER_PX);
+      const n = 2 ** COORD.z;
+      const west = (COORD.x / n) * 360 - 180;
+      const south = (Math.atan(Math.sinh(Math.PI * (1 - (2 * (COORD.y + 1)) / n))) * 180) / Math.PI;
+
+      for (const [ox, oy] of [
+        [0, 0],
+        [128, 128],
+        [271, 20],
+      ]) {
+        const { x, y } = pixelCenter(ox, oy);
+        const lon = (x / 6378137) * (180 / Math.PI);
+        const lat = Math.atan(Math.sinh(y / 6378137)) * (180 / Math.PI);
+        const expected = 1000 + 2000 * (lon - west) + 3000 * (lat - south);
+        expect(tile.grid[oy * tile.width + ox]).toBeCloseTo(expected, 3);
+      }
+      expect(tile.noData).toBeUndefined();
+    });
+  });
+
+  it('masks float32 NoData values not representable in single precision', async () => {
+    const bounds = tileToMercatorBounds(COORD.z, COORD.x, COORD.y);
+    const values = new Float32Array(16).fill(100);
+    values[0] = -9999.9;
+    const tiff = writeArrayBuffer(values, {
+      width: 4,
+      height: 4,
+      ModelPixelScale: [(bounds.maxX - bounds.minX) / 4, (bounds.maxY - bounds.minY) / 4, 0],
+      ModelTiepoint: [0, 0, 0, bounds.minX, bounds.maxY, 0],
+      GTModelTypeGeoKey: 1,
+      GTRasterTypeGeoKey: 1,
+      ProjectedCSTypeGeoKey: 3857,
+    });
+    const source = new CogSource(tiff, { noDataValue: -9999.9, resampling: 'nearest' });
+
+    const tile = await source.fetchTile(COORD, 0);
+
+    expect(Number.isNaN(tile.grid[0])).toBe(true);
+    expect(tile.grid[TILE_SIZE * TILE_SIZE - 1]).toBe(100);
+  });
+
+  describe('remote GeoTIFFs', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('reads byte ranges through fetchUpstream', async () => {
+      const file = loadFixture('dem-3857.tif');
+      global.fetch = vi.fn((_url: unknown, init?: RequestInit) => {
+        const range = (init?.headers as Record<string, string>).Range;
+        const [start, end] = range.slice('bytes='.length).split('-').map(Number);
+        return Promise.resolve(new Response(file.slice(start, end + 1), { status: 206 }));
+      }) as typeof fetch;
+      const remote = new CogSource('https://cog.example.com/dem.tif');
+      const local = new CogSource(file);
+
+      const tile = await remote.fetchTile(COORD, BUFFER_PX);
+
+      expect(tile.grid).toEqual((await local.fetchTile(COORD, BUFFER_PX)).grid);
+      expect(vi.mocked(global.fetch).mock.calls[0][1]?.signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it('reports failing hosts as upstream errors', async () => {
+      global.fetch = vi.fn().mockResolvedValue(new Response(null, { status: 503 }));
+      const source = new CogSource('https://cog-down.example.com/dem.tif', {
+        upstream: { retries: 0 },
+      });
+
+      await expect(source.fetchTile(COORD)).rejects.toBeInstanceOf(UpstreamError);
+    });
+  });
+
+  it('rejects unsupported projections', async () => {
+    const swiss = writeArrayBuffer(new Float32Array(4), {
+      width: 2,
+      height: 2,
+      ModelPixelScale: [1, 1, 0],
+      ModelTiepoint: [0, 0, 0, 2600000, 1200000, 0],
+      GTModelTypeGeoKey: 1,
+      GTRasterTypeGeoKey: 1,
+      ProjectedCSTypeGeoKey: 2056,
+    });
+    const source = new CogSource(swiss);
+
+    await expect(source.fetchTile(COORD)).rejects.toThrow('Unsupported COG projection EPSG:2056');
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * CompositeSource Tests
+ *
+ * Tests for composing tiles from prioritized DEM sources with bounds, zoom
+ * ranges, fallback and feathering, using stub sources.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { CompositeSource } from '../../src/lib/tiles/composite-source';
+import { tileToWgs84Bounds } from '../../src/lib/tiles/fetcher';
+import type { BufferedGrid, DemSource, TileCoord } from '../../src/lib/tiles/types';
+import { SOURCE_TILE_SIZE } from '../../src/lib/tiles/types';
+import type { Grid } from '../../src/lib/dem/grid';
+
+const TILE_SIZE = 256;
+const SOURCE_SIZE = 128;
+const COORD = { z: 10, x: 533, y: 360 };
+
+/**
+ * Creates a source returning a constant elevation, with NaN where `isVoid`
+ * holds for a pixel of the buffered grid. Its source tiles are 128 pixels.
+ */
+function createSource(
+  elevation: number,
+  isVoid: (x: number, y: number) => boolean = () => false
+): DemSource & { fetchTile: ReturnType<typeof vi.fn>; fetchSourceTile: ReturnType<typeof vi.fn> } {
+  const fill = (size: number): Float64Array => {
+    const grid = new Float64Array(size * size);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        grid[y * size + x] = isVoid(x, y) ? NaN : elevation;
+      }
+    }
+    return grid;
+  };
+
+  return {
+    fetchTile: vi.fn(async (_coord: TileCoord, bufferPx: number = 0): Promise<BufferedGrid> => {
+      const size = TILE_SIZE + 2 * bufferPx;
+      return { grid: fill(size), width: size, height: size, bufferPx };
+    }),
+    fetchSourceTile: vi.fn(async (): Promise<Grid> => ({
+      data: fill(SOURCE_SIZE),
+      width: SOURCE_SIZE,
+      height: SOURCE_SIZE,
+    })),
+  };
+}
+
+function createFailingSource(): DemSource & { fetchTile: ReturnType<typeof vi.fn> } {
+  const error = new Error('Failed to fetch tile 10/533/360');
+  return {
+    fetchTile: vi.fn().mockRejectedValue(error),
+    fetchSourceTile: vi.fn().mockRejectedValue(error),
+  };
+}
+
+/** Bounds covering the western half of COORD */
+function westernHalf(): [number, number, number, number] {
+  const { minLon, minLat, maxLon, maxLat } = tileToWgs84Bounds(COORD.z, COORD.x, COORD.y);
+  return [minLon - 1, minLat - 1, (minLon + maxLon) / 2, maxLat + 1];
+}
+
+describe('CompositeSource', () => {
+  it('takes the highest-priority source covering the tile', async () => {
+    const lidar = createSource(100);
+    const global = createSource(200);
+    const source = new CompositeSource([{ source: lidar }, { source: global }]);
+
+    const tile = await source.fetchTile(COORD, 8);
+
+    expect(tile.width).toBe(TILE_SIZE + 16);
+    expect(tile.grid.every((value) => value === 100)).toBe(true);
+    expect(tile.noData).toBeUndefined();
+    // Lower sources are only fetched for uncovered pixels
+    expect(global.fetchTile).not.toHaveBeenCalled();
+  });
+
+  it('fills pixels outside a source bounds from the next source', async () => {
+    const source = new CompositeSource([
+      { source: createSource(100), bounds: westernHalf() },
+      { source: createSource(200) },
+    ]);
+
+    const tile = await source.fetchTile(COORD);
+
+    expect(tile.grid[10]).toBe(100);
+    expect(tile.grid[TILE_SIZE - 10]).toBe(200);
+  });
+
+  it('skips sources outside their zoom range or bounds', async () => {
+    const lidar = createSource(100);
+    const elsewhere = createSource(300);
+    const source = new CompositeSource([
+      { source: lidar, minZoom: 12 },
+      { source: elsewhere, bounds: [-10, -10, -5, -5] },
+      { source: createSource(200) },
+    ]);
+
+    const tile = await source.fetchTile(COORD);
+
+    expect(tile.grid[0]).toBe(200);
+    expect(lidar.fetchTile).not.toHaveBeenCalled();
+    expect(elsewhere.fetchTile).not.toHaveBeenCalled();
+  });
+
+  it('falls back when a source fails', async () => {
+    const source = new CompositeSource([
+      { source: createFailingSource() },
+      { source: createSource(200) },
+    ]);
+
+    const tile = await source.fetchTile(COORD);
+
+    expect(tile.grid.every((value) => value === 200)).toBe(true);
+    expect(tile.degraded).toBe(true);
+  });
+
+  it('does not flag tiles composed from several healthy sources', async () => {
+    const source = new CompositeSource([
+      { source: createSource(100), bounds: westernHalf() },
+      { source: createSource(200) },
+    ]);
+
+    const tile = await source.fetchTile(COORD);
+
+    expect(tile.degraded).toBeUndefined();
+  });
+
+  it('falls back per pixel on NoData', async () => {
+    const source = new CompositeSource([
+      { source: createSource(100, (x) => x >= 100) },
+      { source: createSource(200, (x) => x >= 200) },
+    ]);
+
+    const tile = await source.fetchTile(COORD);
+
+    expect(tile.grid[50]).toBe(100);
+    expect(tile.grid[150]).toBe(200);
+    expect(Number.isNaN(tile.grid[250])).toBe(true);
+    expect(tile.noData?.[250]).toBe(1);
+    expect(tile.noData?.[150]).toBe(0);
+  });
+
+  it('feather-blends at coverage edges', async () => {
+    const source = new CompositeSource(
+      [{ source: createSource(100, (x) => x >= 128) }, { source: createSource(200) }],
+      { featherPx: 4 }
+    );
+
+    const tile = await source.fetchTile(COORD);
+    const row = tile.grid.subarray(0, TILE_SIZE);
+
+    // Full weight from 5 pixels inside the edge, fading over the 4 pixels after
+    expect(row[123]).toBe(100);
+    expect(row[124]).toBeCloseTo(100 * (4 / 5) + 200 * (1 / 5), 10);
+    expect(row[127]).toBeCloseTo(100 * (1 / 5) + 200 * (4 / 5), 10);
+    expect(row[128]).toBe(200);
+    for (let x = 123; x < 128; x++) {
+      expect(row[x + 1]).toBeGreaterThan(row[x]);
+    }
+  });
+
+  it('keeps feathered values where no source lies below', async () => {
+    const source = new CompositeSource([{ source: createSource(100, (x) => x >= 128) }], {
+      featherPx: 4,
+    });
+
+    const tile = await source.fetchTile(COORD);
+
+    expect(tile.grid[127]).toBeCloseTo(100, 10);
+    expect(Number.isNaN(tile.grid[128])).toBe(true);
+  });
+
+  it('rejects tiles no source covers', async () => {
+    const source = new CompositeSource([{ source: createSource(100), maxZoom: 8 }]);
+
+    await expect(source.fetchTile(COORD)).rejects.toThrow('No DEM source covers tile 10/533/360');
+  });
+
+  it('rethrows when every covering source fails', async () => {
+    const source = new CompositeSource([{ source: createFailingSource() }]);
+
+    await expect(source.fetchTile(COORD)).rejects.toThrow('Failed to fetch tile 10/533/360');
+  });
+
+  describe('fetchSourceTile', () => {
+    it('composes the source tiles at SOURCE_TILE_SIZE', async () => {
+      const lidar = createSource(100);
+      const source = new CompositeSource([
+        { source: lidar, bounds: westernHalf() },
+        { source: createSource(200) },
+      ]);
+
+      const tile = await source.fetchSourceTile(COORD);
+
+      expect(tile.width).toBe(SOURCE_TILE_SIZE);
+      expect(tile.height).toBe(SOURCE_TILE_SIZE);
+      expect(tile.data[0]).toBe(100);
+      expect(tile.data[SOURCE_TILE_SIZE - 1]).toBe(200);
+      expect(lidar.fetchSourceTile).toHaveBeenCalledWith(COORD);
+      expect(lidar.fetchTile).not.toHaveBeenCalled();
+    });
+
+    it('masks pixels no source covers', async () => {
+      const source = new CompositeSource([{ source: createSource(100, (x) => x >= SOURCE_SIZE / 2) }]);
+
+      const tile = await source.fetchSourceTile(COORD);
+
+      expect(tile.data[0]).toBe(100);
+      expect(Number.isNaN(tile.data[SOURCE_TILE_SIZE - 1])).toBe(true);
+      expect(tile.noData).toBeDefined();
+    });
+  });
+});
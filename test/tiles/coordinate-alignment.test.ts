@@ -1,17 +1,31 @@
 /**
  * Coordinate Alignment Test
  *
- * Verifies that the 2×2 corner-aligned approach samples from the
- * same geographic locations as the original 3×3 approach.
+ * Verifies that buffered grids sample the neighborhood of source tiles at the
+ * same geographic locations as the reference 3×3 formula, and that adjacent
+ * output tiles agree along their shared edges, also when overzooming
+ * or underzooming.
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TileFetcher } from '../../src/lib/tiles/fetcher';
+
+// Mock @cf-wasm/photon
+vi.mock('@cf-wasm/photon', () => ({
+  PhotonImage: {
+    new_from_byteslice: vi.fn(),
+  },
+}));
+
+import { PhotonImage } from '@cf-wasm/photon';
 
 const TILE_SIZE = 256;
 const SOURCE_TILE_SIZE = 512;
+const BUFFER_PX = 8;
+const Z = 10;
 
 /**
- * Simulates the 3×3 sampling formula (original approach)
+ * Simulates the 3×3 sampling formula (reference approach)
  * Canvas layout: [topLeft][top][topRight]
  *                [left][CENTER][right]
  *                [bottomLeft][bottom][bottomRight]
@@ -38,181 +52,396 @@ function sample3x3(tileX: number, tileY: number): { srcX: number; srcY: number;
 }
 
 /**
- * Simulates the 2×2 sampling formula (centered on tile C approach)
- * Canvas layout: [CENTER][right]
- *                [bottom][bottomRight]
- * Center tile is at offset (0, 0)
+ * Synthetic DEM: a unique, exactly-encodable elevation per global source pixel.
  */
-function sample2x2(tileX: number, tileY: number): { srcX: number; srcY: number; tile: string } {
-  const scale = SOURCE_TILE_SIZE / TILE_SIZE; // 2
-  const canvasSize = SOURCE_TILE_SIZE * 2; // 1024
-
-  // Centered on tile C (no offset)
-  let srcX = Math.floor((tileX + 0.5) * scale);
-  let srcY = Math.floor((tileY + 0.5) * scale);
-
-  // Clamp to canvas bounds (left/top buffer clamps to 0)
-  srcX = Math.max(0, Math.min(canvasSize - 1, srcX));
-  srcY = Math.max(0, Math.min(canvasSize - 1, srcY));
-
-  // Determine which tile in the 2×2 grid
-  const tileCol = Math.floor(srcX / SOURCE_TILE_SIZE); // 0=center, 1=right
-  const tileRow = Math.floor(srcY / SOURCE_TILE_SIZE); // 0=center, 1=bottom
-
-  const tiles = [
-    ['CENTER', 'right'],
-    ['bottom', 'bottomRight'],
-  ];
-
-  return { srcX, srcY, tile: tiles[tileRow][tileCol] };
+function elevationAt(globalX: number, globalY: number): number {
+  return (globalX % 1000) + (globalY % 1000) * 10;
 }
 
 /**
- * Converts stitched canvas coordinates to coordinates within the CENTER tile.
- * This represents the "ground truth" geographic location.
+ * Mocks fetch and PhotonImage so each tile URL decodes to the synthetic DEM.
+ * Returns the list of requested URLs.
  */
-function toLocalCenterCoord3x3(srcX: number, srcY: number): { localX: number; localY: number } {
-  // In 3×3, center tile starts at (512, 512)
-  return { localX: srcX - 512, localY: srcY - 512 };
-}
+function mockSyntheticTiles(): string[] {
+  const requested: string[] = [];
+
+  global.fetch = vi.fn().mockImplementation((url: string) => {
+    requested.push(url);
+    return Promise.resolve({
+      ok: true,
+      arrayBuffer: () => Promise.resolve(new TextEncoder().encode(url).buffer),
+    });
+  });
 
-function toLocalCenterCoord2x2(srcX: number, srcY: number): { localX: number; localY: number } {
-  // In 2×2, center tile starts at (0, 0)
-  return { localX: srcX, localY: srcY };
+  vi.mocked(PhotonImage.new_from_byteslice).mockImplementation((bytes: Uint8Array) => {
+    const [, x, y] = new TextDecoder()
+      .decode(bytes)
+      .match(/(\d+)\/(\d+)\/(\d+)\.webp$/)!
+      .slice(1)
+      .map(Number);
+
+    const s = SOURCE_TILE_SIZE;
+    const data = new Uint8Array(s * s * 4);
+    for (let py = 0; py < s; py++) {
+      for (let px = 0; px < s; px++) {
+        // Terrarium encoding of an integer elevation
+        const adjusted = elevationAt(x * s + px, y * s + py) + 32768;
+        const i = (py * s + px) * 4;
+        data[i] = Math.floor(adjusted / 256);
+        data[i + 1] = adjusted % 256;
+        data[i + 3] = 255;
+      }
+    }
+
+    return {
+      get_raw_pixels: () => data,
+      get_width: () => s,
+      get_height: () => s,
+      free: () => {},
+    } as unknown as PhotonImage;
+  });
+
+  return requested;
 }
 
 describe('Coordinate Alignment Analysis', () => {
-  describe('sampling location comparison', () => {
-    it('should show where each approach samples for key output coordinates', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('sampling location', () => {
+    it('should sample the same source pixels as the 3×3 formula', async () => {
+      mockSyntheticTiles();
+      const x = 500;
+      const y = 300;
+
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE);
+      const result = await fetcher.fetchTile({ z: Z, x, y }, BUFFER_PX);
+
       const testPoints = [
         { name: 'tile start', tileX: 0, tileY: 0 },
         { name: 'tile center', tileX: 128, tileY: 128 },
         { name: 'tile end', tileX: 255, tileY: 255 },
         { name: 'left buffer', tileX: -8, tileY: 0 },
+        { name: 'top buffer', tileX: 0, tileY: -8 },
         { name: 'right buffer', tileX: 263, tileY: 0 },
+        { name: 'bottom-left buffer', tileX: -8, tileY: 263 },
       ];
 
-      console.log('\n=== Sampling Location Comparison ===');
-      console.log('tileX/Y = output coordinate relative to tile (0-255), negative/excess = buffer\n');
-
       for (const point of testPoints) {
-        const s3x3 = sample3x3(point.tileX, point.tileY);
-        const s2x2 = sample2x2(point.tileX, point.tileY);
-
-        const local3x3 = toLocalCenterCoord3x3(s3x3.srcX, s3x3.srcY);
-        const local2x2 = toLocalCenterCoord2x2(s2x2.srcX, s2x2.srcY);
-
-        console.log(`${point.name} (tileX=${point.tileX}, tileY=${point.tileY}):`);
-        console.log(`  3×3: srcX=${s3x3.srcX}, srcY=${s3x3.srcY} in [${s3x3.tile}]`);
-        console.log(`       local to CENTER: (${local3x3.localX}, ${local3x3.localY})`);
-        console.log(`  2×2: srcX=${s2x2.srcX}, srcY=${s2x2.srcY} in [${s2x2.tile}]`);
-        console.log(`       local to CENTER: (${local2x2.localX}, ${local2x2.localY})`);
-
-        // Check if they sample from the same location in the CENTER tile
-        if (s3x3.tile === 'CENTER' && s2x2.tile === 'CENTER') {
-          const offsetX = local2x2.localX - local3x3.localX;
-          const offsetY = local2x2.localY - local3x3.localY;
-          console.log(`  OFFSET: (${offsetX}, ${offsetY}) source pixels`);
-        }
-        console.log('');
+        const reference = sample3x3(point.tileX, point.tileY);
+        // Canvas origin is the top-left neighbor's corner
+        const globalX = (x - 1) * SOURCE_TILE_SIZE + reference.srcX;
+        const globalY = (y - 1) * SOURCE_TILE_SIZE + reference.srcY;
+
+        const ox = point.tileX + BUFFER_PX;
+        const oy = point.tileY + BUFFER_PX;
+        expect(result.grid[oy * result.width + ox], point.name).toBe(elevationAt(globalX, globalY));
       }
     });
 
-    it('should verify geographic alignment between 3×3 and 2×2 approaches', () => {
-      // For the tile center (output coordinate 128), where does each approach sample?
-      const s3x3 = sample3x3(128, 128);
-      const s2x2 = sample2x2(128, 128);
+    it('should read left and top buffer from neighbor tiles', () => {
+      expect(sample3x3(-8, 0).tile).toBe('left');
+      expect(sample3x3(0, -8).tile).toBe('top');
+      expect(sample3x3(-8, -8).tile).toBe('topLeft');
+    });
 
-      const local3x3 = toLocalCenterCoord3x3(s3x3.srcX, s3x3.srcY);
-      const local2x2 = toLocalCenterCoord2x2(s2x2.srcX, s2x2.srcY);
+    it('should fetch only the center tile without buffer', async () => {
+      const requested = mockSyntheticTiles();
+
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE);
+      await fetcher.fetchTile({ z: Z, x: 500, y: 300 }, 0);
+
+      expect(requested).toEqual(['https://example.com/10/500/300.webp']);
+    });
+  });
+
+  describe('tile seams', () => {
+    it('should produce identical data along the shared edge of horizontal neighbors', async () => {
+      mockSyntheticTiles();
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE);
+
+      const west = await fetcher.fetchTile({ z: Z, x: 500, y: 300 }, BUFFER_PX);
+      const east = await fetcher.fetchTile({ z: Z, x: 501, y: 300 }, BUFFER_PX);
+      const size = west.width;
+
+      // The last 2 * BUFFER_PX west columns cover the first east columns
+      for (let row = 0; row < size; row++) {
+        for (let col = TILE_SIZE; col < size; col++) {
+          expect(west.grid[row * size + col]).toBe(east.grid[row * size + col - TILE_SIZE]);
+        }
+      }
+    });
 
-      console.log('\n=== Geographic Alignment Verification ===');
-      console.log(`Output tile center (128, 128):`);
-      console.log(`  3×3 samples from CENTER tile at local (${local3x3.localX}, ${local3x3.localY})`);
-      console.log(`  2×2 samples from CENTER tile at local (${local2x2.localX}, ${local2x2.localY})`);
+    it('should produce identical data along the shared edge of vertical neighbors', async () => {
+      mockSyntheticTiles();
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE);
 
-      // The offset in source pixels (should be 0 with corrected formula)
-      const offsetSourcePx = local2x2.localX - local3x3.localX;
-      console.log(`  Source pixel offset: ${offsetSourcePx} px`);
+      const north = await fetcher.fetchTile({ z: Z, x: 500, y: 300 }, BUFFER_PX);
+      const south = await fetcher.fetchTile({ z: Z, x: 500, y: 301 }, BUFFER_PX);
+      const size = north.width;
 
-      if (offsetSourcePx === 0) {
-        console.log(`\n  ✓ Geographic alignment is correct!`);
-      } else {
-        console.log(`\n  ⚠️  WARNING: ${offsetSourcePx}px offset detected!`);
+      // The last 2 * BUFFER_PX north rows cover the first south rows
+      for (let row = TILE_SIZE; row < size; row++) {
+        for (let col = 0; col < size; col++) {
+          expect(north.grid[row * size + col]).toBe(south.grid[(row - TILE_SIZE) * size + col]);
+        }
       }
+    });
+  });
 
-      // With corrected formula, both should sample from the same location
-      expect(offsetSourcePx).toBe(0);
-      expect(local3x3.localX).toBe(local2x2.localX);
-      expect(local3x3.localY).toBe(local2x2.localY);
+  describe('resampling', () => {
+    it('should average the 2×2 source block with bilinear resampling', async () => {
+      mockSyntheticTiles();
+      const x = 500;
+      const y = 300;
+
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE, {
+        resampling: 'bilinear',
+      });
+      const result = await fetcher.fetchTile({ z: Z, x, y }, BUFFER_PX);
+
+      // Output pixel (100, 50) covers source pixels 200-201 × 100-101 of the tile
+      const globalX = x * SOURCE_TILE_SIZE + 200;
+      const globalY = y * SOURCE_TILE_SIZE + 100;
+      const expected =
+        (elevationAt(globalX, globalY) +
+          elevationAt(globalX + 1, globalY) +
+          elevationAt(globalX, globalY + 1) +
+          elevationAt(globalX + 1, globalY + 1)) /
+        4;
+
+      const ox = 100 + BUFFER_PX;
+      const oy = 50 + BUFFER_PX;
+      expect(result.grid[oy * result.width + ox]).toBeCloseTo(expected, 10);
     });
 
-    it('should verify left/top buffer is clamped in 2×2 approach', () => {
-      // Left buffer (tileX = -8) should clamp to 0 in 2×2
-      const s3x3 = sample3x3(-8, 0);
-      const s2x2 = sample2x2(-8, 0);
+    it.each(['bilinear', 'bicubic', 'area'] as const)(
+      'should keep tile seams identical with %s resampling',
+      async (resampling) => {
+        mockSyntheticTiles();
+        const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE, {
+          resampling,
+        });
+
+        const west = await fetcher.fetchTile({ z: Z, x: 500, y: 300 }, BUFFER_PX);
+        const east = await fetcher.fetchTile({ z: Z, x: 501, y: 300 }, BUFFER_PX);
+        const size = west.width;
+
+        for (let row = 0; row < size; row++) {
+          for (let col = TILE_SIZE; col < size; col++) {
+            expect(west.grid[row * size + col]).toBeCloseTo(east.grid[row * size + col - TILE_SIZE], 10);
+          }
+        }
+      }
+    );
+  });
+
+  describe('overzoom', () => {
+    const MAX_SOURCE_ZOOM = Z;
+    const OVERZOOM = Z + 2;
 
-      console.log('\n=== Buffer Behavior Comparison ===');
-      console.log(`Left buffer (tileX=-8):`);
-      console.log(`  3×3: srcX=${s3x3.srcX} in [${s3x3.tile}] - has left neighbor data`);
-      console.log(`  2×2: srcX=${s2x2.srcX} in [${s2x2.tile}] - clamped to edge`);
+    it('should fetch only the ancestor tile at maxSourceZoom', async () => {
+      const requested = mockSyntheticTiles();
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE, {
+        maxSourceZoom: MAX_SOURCE_ZOOM,
+      });
 
-      // 3×3 can sample from left neighbor (srcX < 512)
-      expect(s3x3.srcX).toBeLessThan(512);
-      expect(s3x3.tile).toBe('left');
+      // Tile 2001/1201 sits inside ancestor 500/300, away from its edges
+      await fetcher.fetchTile({ z: OVERZOOM, x: 2001, y: 1201 }, BUFFER_PX);
 
-      // 2×2 clamps to 0 (edge of center tile)
-      expect(s2x2.srcX).toBe(0);
-      expect(s2x2.tile).toBe('CENTER');
+      expect(requested).toEqual(['https://example.com/10/500/300.webp']);
     });
 
-    it('should verify right/bottom buffer works in 2×2 approach', () => {
-      // Right buffer (tileX = 263) should extend into right tile
-      const s3x3 = sample3x3(263, 0);
-      const s2x2 = sample2x2(263, 0);
+    it('should cut the tile from its ancestor', async () => {
+      mockSyntheticTiles();
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE, {
+        maxSourceZoom: MAX_SOURCE_ZOOM,
+      });
+      const result = await fetcher.fetchTile({ z: OVERZOOM, x: 2001, y: 1201 }, BUFFER_PX);
+
+      // Each output pixel covers half a source pixel, interpolated by default
+      const originX = (2001 * SOURCE_TILE_SIZE) / 4;
+      const originY = (1201 * SOURCE_TILE_SIZE) / 4;
+      for (const [tileX, tileY] of [[0, 0], [128, 64], [255, 255], [-8, -8], [263, 263]]) {
+        const globalX = originX + (tileX + 0.5) / 2 - 0.5;
+        const globalY = originY + (tileY + 0.5) / 2 - 0.5;
+        const ox = tileX + BUFFER_PX;
+        const oy = tileY + BUFFER_PX;
+        expect(result.grid[oy * result.width + ox]).toBeCloseTo(
+          (globalX % 1000) + (globalY % 1000) * 10,
+          10
+        );
+      }
+    });
 
-      console.log('\n=== Right Buffer Comparison ===');
-      console.log(`Right buffer (tileX=263):`);
-      console.log(`  3×3: srcX=${s3x3.srcX} in [${s3x3.tile}]`);
-      console.log(`  2×2: srcX=${s2x2.srcX} in [${s2x2.tile}]`);
+    it('should upsample smoothly rather than in steps by default', async () => {
+      mockSyntheticTiles();
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE, {
+        maxSourceZoom: MAX_SOURCE_ZOOM,
+      });
+      const result = await fetcher.fetchTile({ z: OVERZOOM, x: 2001, y: 1201 }, BUFFER_PX);
+
+      // The DEM rises by 1 per source pixel, so by 0.5 per output pixel,
+      // where nearest would repeat each value twice
+      const row = (BUFFER_PX + 100) * result.width;
+      for (let x = BUFFER_PX; x < BUFFER_PX + TILE_SIZE - 1; x++) {
+        expect(result.grid[row + x + 1] - result.grid[row + x]).toBeCloseTo(0.5, 10);
+      }
+    });
 
-      // Both should sample from right neighbor
-      expect(s3x3.tile).toBe('right');
-      expect(s2x2.tile).toBe('right');
+    it('should interpolate parent data with bilinear resampling', async () => {
+      mockSyntheticTiles();
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE, {
+        maxSourceZoom: MAX_SOURCE_ZOOM,
+        resampling: 'bilinear',
+      });
+      const result = await fetcher.fetchTile({ z: OVERZOOM, x: 2001, y: 1201 }, BUFFER_PX);
+
+      // The synthetic DEM is linear here, so interpolation reproduces it exactly
+      const originX = (2001 * SOURCE_TILE_SIZE) / 4;
+      const originY = (1201 * SOURCE_TILE_SIZE) / 4;
+      const tileX = 101;
+      const tileY = 37;
+      const globalX = originX + (tileX + 0.5) / 2 - 0.5;
+      const globalY = originY + (tileY + 0.5) / 2 - 0.5;
+      const expected = (globalX % 1000) + (globalY % 1000) * 10;
+
+      const ox = tileX + BUFFER_PX;
+      const oy = tileY + BUFFER_PX;
+      expect(result.grid[oy * result.width + ox]).toBeCloseTo(expected, 10);
+    });
 
-      // Both should sample from same relative position in right tile
-      const local3x3InRight = s3x3.srcX - 1024; // Right tile starts at 1024 in 3×3
-      const local2x2InRight = s2x2.srcX - 512;  // Right tile starts at 512 in 2×2
-      expect(local3x3InRight).toBe(local2x2InRight);
+    it('should read across the ancestor edge from the ancestor neighbor', async () => {
+      const requested = mockSyntheticTiles();
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE, {
+        maxSourceZoom: MAX_SOURCE_ZOOM,
+      });
+
+      // Tile 2000/1201 is the westmost child of ancestor 500/300
+      await fetcher.fetchTile({ z: OVERZOOM, x: 2000, y: 1201 }, BUFFER_PX);
+
+      expect(requested.sort()).toEqual([
+        'https://example.com/10/499/300.webp',
+        'https://example.com/10/500/300.webp',
+      ]);
+    });
+
+    it.each(['nearest', 'bilinear', 'bicubic'] as const)(
+      'should keep seams identical across ancestors with %s resampling',
+      async (resampling) => {
+        mockSyntheticTiles();
+        const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE, {
+          maxSourceZoom: MAX_SOURCE_ZOOM,
+          resampling,
+        });
+
+        // 2003 and 2004 are children of ancestors 500 and 501
+        const west = await fetcher.fetchTile({ z: OVERZOOM, x: 2003, y: 1201 }, BUFFER_PX);
+        const east = await fetcher.fetchTile({ z: OVERZOOM, x: 2004, y: 1201 }, BUFFER_PX);
+        const size = west.width;
+
+        for (let row = 0; row < size; row++) {
+          for (let col = TILE_SIZE; col < size; col++) {
+            expect(west.grid[row * size + col]).toBeCloseTo(east.grid[row * size + col - TILE_SIZE], 10);
+          }
+        }
+      }
+    );
+
+    it('should upsample source tiles beyond maxSourceZoom for point queries', async () => {
+      const requested = mockSyntheticTiles();
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE, {
+        maxSourceZoom: MAX_SOURCE_ZOOM,
+      });
+      const grid = await fetcher.fetchSourceTile({ z: OVERZOOM, x: 2001, y: 1201 });
+
+      expect(grid.width).toBe(SOURCE_TILE_SIZE);
+      expect(grid.height).toBe(SOURCE_TILE_SIZE);
+      expect(requested.every((url) => url.startsWith('https://example.com/10/'))).toBe(true);
+
+      // Each pixel covers a quarter source pixel, bilinearly interpolated
+      const originX = (2001 * SOURCE_TILE_SIZE) / 4;
+      const originY = (1201 * SOURCE_TILE_SIZE) / 4;
+      const px = 200;
+      const py = 300;
+      const globalX = originX + (px + 0.5) / 4 - 0.5;
+      const globalY = originY + (py + 0.5) / 4 - 0.5;
+      expect(grid.data[py * grid.width + px]).toBeCloseTo(
+        (globalX % 1000) + (globalY % 1000) * 10,
+        10
+      );
     });
   });
 
-  describe('2×2 centered approach summary', () => {
-    it('should document the trade-offs of the 2×2 centered approach', () => {
-      console.log('\n=== 2×2 Centered Approach Summary ===');
-      console.log('');
-      console.log('Benefits:');
-      console.log('  ✓ Fetches only 4 tiles instead of 9 (56% reduction)');
-      console.log('  ✓ Single Promise.all() batch (faster network)');
-      console.log('  ✓ 55% less memory for stitched canvas');
-      console.log('  ✓ Correct geographic alignment maintained');
-      console.log('');
-      console.log('Trade-offs:');
-      console.log('  - Left buffer: clamped to tile edge (no neighbor data)');
-      console.log('  - Top buffer: clamped to tile edge (no neighbor data)');
-      console.log('  - Right buffer: ✓ has neighbor data from R tile');
-      console.log('  - Bottom buffer: ✓ has neighbor data from B tile');
-      console.log('');
-      console.log('Impact on algorithms:');
-      console.log('  - Contours at left/top edges may have slight discontinuities');
-      console.log('  - Hillshade at left/top edges may have edge artifacts');
-      console.log('  - Same behavior as tiles at world boundary (x=0, y=0)');
-      console.log('');
-      console.log('This is acceptable because:');
-      console.log('  - Buffer is small (8px) relative to tile size (256px)');
-      console.log('  - Edge artifacts are typically not noticeable');
-      console.log('  - Performance gain outweighs minor visual impact');
+  describe('underzoom', () => {
+    const UNDERZOOM = Z - 1;
+
+    it('should build the tile from its children at the rule depth', async () => {
+      const requested = mockSyntheticTiles();
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE, {
+        underzoom: [{ minZoom: UNDERZOOM, maxZoom: UNDERZOOM, depth: 1, method: 'area' }],
+      });
+      await fetcher.fetchTile({ z: UNDERZOOM, x: 250, y: 150 }, 0);
+
+      expect(requested.every((url) => url.startsWith('https://example.com/10/'))).toBe(true);
+      for (const child of ['500/300', '501/300', '500/301', '501/301']) {
+        expect(requested).toContain(`https://example.com/10/${child}.webp`);
+      }
+    });
+
+    it.each([
+      ['area', 1.5],
+      ['max', 3],
+    ] as const)('should downsample children with %s', async (method, offset) => {
+      mockSyntheticTiles();
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE, {
+        underzoom: [{ minZoom: UNDERZOOM, maxZoom: UNDERZOOM, depth: 1, method }],
+      });
+      const result = await fetcher.fetchTile({ z: UNDERZOOM, x: 250, y: 150 }, BUFFER_PX);
+
+      // Each output pixel covers 4×4 child pixels, rising to the east and south
+      const ox = 10;
+      const oy = 20;
+      const globalX = 500 * SOURCE_TILE_SIZE + ox * 4 + offset;
+      const globalY = 300 * SOURCE_TILE_SIZE + oy * 4 + offset;
+      const expected = (globalX % 1000) + (globalY % 1000) * 10;
+
+      const index = (oy + BUFFER_PX) * result.width + ox + BUFFER_PX;
+      expect(result.grid[index]).toBeCloseTo(expected, 10);
+    });
+
+    it('should read the source at the tile zoom outside the rule range', async () => {
+      const requested = mockSyntheticTiles();
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE, {
+        underzoom: [{ minZoom: 0, maxZoom: UNDERZOOM - 1, depth: 1, method: 'max' }],
+      });
+      await fetcher.fetchTile({ z: UNDERZOOM, x: 250, y: 150 }, 0);
+
+      expect(requested).toEqual(['https://example.com/9/250/150.webp']);
+    });
+
+    it('should keep seams identical', async () => {
+      mockSyntheticTiles();
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', SOURCE_TILE_SIZE, {
+        underzoom: [{ minZoom: UNDERZOOM, maxZoom: UNDERZOOM, depth: 1, method: 'max' }],
+      });
+
+      const west = await fetcher.fetchTile({ z: UNDERZOOM, x: 250, y: 150 }, BUFFER_PX);
+      const east = await fetcher.fetchTile({ z: UNDERZOOM, x: 251, y: 150 }, BUFFER_PX);
+      const size = west.width;
+
+      for (let row = 0; row < size; row++) {
+        for (let col = TILE_SIZE; col < size; col++) {
+          expect(west.grid[row * size + col]).toBe(east.grid[row * size + col - TILE_SIZE]);
+        }
+      }
     });
   });
 });
-
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  sampleElevations,
+  lngLatToTilePosition,
+  validateElevationQuery,
+} from '../../src/lib/tiles/elevation-sampler';
+import type { TileCoord } from '../../src/lib/tiles/types';
+import { MAX_ELEVATION_TILES, ELEVATION_FETCH_BATCH } from '../../src/lib/tiles/types';
+import type { Grid } from '../../src/lib/dem';
+import { getResolution } from '../../src/lib/dem';
+
+/**
+ * Fake fetcher returning tiles whose elevation equals the column index,
+ * recording every requested tile.
+ */
+function createFetcher(size = 4) {
+  const requested: TileCoord[] = [];
+  return {
+    requested,
+    async fetchSourceTile(coord: TileCoord): Promise<Grid> {
+      requested.push(coord);
+      const data = new Float64Array(size * size);
+      for (let i = 0; i < data.length; i++) {
+        data[i] = i % size;
+      }
+      return { data, width: size, height: size };
+    },
+  };
+}
+
+describe('elevation-sampler', () => {
+  describe('lngLatToTilePosition', () => {
+    it('should place the origin at the corner of the z1 tiles', () => {
+      const { tile, u, v } = lngLatToTilePosition({ lon: 0, lat: 0 }, 1);
+
+      expect(tile).toEqual({ z: 1, x: 1, y: 1 });
+      expect(u).toBeCloseTo(0, 10);
+      expect(v).toBeCloseTo(0, 10);
+    });
+
+    it('should find the tile covering Bern at z12', () => {
+      const { tile, u, v } = lngLatToTilePosition({ lon: 7.45, lat: 46.95 }, 12);
+
+      expect(tile).toEqual({ z: 12, x: 2132, y: 1441 });
+      expect(u).toBeGreaterThanOrEqual(0);
+      expect(u).toBeLessThan(1);
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    });
+
+    it('should assign the antimeridian east edge to the last tile', () => {
+      const { tile, u } = lngLatToTilePosition({ lon: 180, lat: 0 }, 2);
+
+      expect(tile.x).toBe(3);
+      expect(u).toBeCloseTo(1, 10);
+    });
+  });
+
+  describe('sampleElevations', () => {
+    it('should interpolate between source pixels', async () => {
+      const fetcher = createFetcher(4);
+      // Center of the z0 tile lies between columns 1 and 2
+      const [sample] = await sampleElevations(fetcher, [{ lon: 0, lat: 0 }], 0);
+
+      expect(sample.elevation).toBeCloseTo(1.5, 10);
+      expect(sample.tile).toEqual({ z: 0, x: 0, y: 0 });
+      expect(sample.resolution).toBeCloseTo(getResolution(0, 4), 6);
+    });
+
+    it('should fetch each tile once and keep input order', async () => {
+      const fetcher = createFetcher();
+      const points = [
+        { lon: -90, lat: 45 },
+        { lon: 90, lat: 45 },
+        { lon: -91, lat: 44 },
+      ];
+
+      const samples = await sampleElevations(fetcher, points, 1);
+
+      expect(fetcher.requested).toHaveLength(2);
+      expect(samples.map((sample) => sample.lon)).toEqual([-90, 90, -91]);
+      expect(samples[0].tile).toEqual({ z: 1, x: 0, y: 0 });
+      expect(samples[1].tile).toEqual({ z: 1, x: 1, y: 0 });
+    });
+
+    it('should fetch tiles in bounded batches', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const fetcher = {
+        async fetchSourceTile(): Promise<Grid> {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          inFlight--;
+          return { data: new Float64Array(16).fill(100), width: 4, height: 4 };
+        },
+      };
+      // One point in each of 20 tiles along the equator at z5
+      const points = Array.from({ length: 20 }, (_, i) => ({ lon: -175 + i * 11.25, lat: 1 }));
+
+      const samples = await sampleElevations(fetcher, points, 5);
+
+      expect(maxInFlight).toBe(ELEVATION_FETCH_BATCH);
+      expect(new Set(samples.map((sample) => sample.tile.x)).size).toBe(20);
+      expect(samples.every((sample) => sample.elevation === 100)).toBe(true);
+    });
+  });
+
+  describe('validateElevationQuery', () => {
+    it('should reject out-of-range zoom', () => {
+      expect(() => validateElevationQuery([], 23)).toThrow('Zoom must be an integer between 0 and 22');
+      expect(() => validateElevationQuery([], 1.5)).toThrow('Zoom must be an integer');
+    });
+
+    it('should reject points outside Web Mercator bounds', () => {
+      expect(() => validateElevationQuery([{ lon: 181, lat: 0 }], 10)).toThrow('Longitude');
+      expect(() => validateElevationQuery([{ lon: 0, lat: 89 }], 10)).toThrow('Latitude');
+    });
+
+    it('should reject points spanning too many tiles', () => {
+      const points = Array.from({ length: MAX_ELEVATION_TILES + 1 }, (_, i) => ({ lon: -179 + i * 2, lat: 0 }));
+
+      expect(() => validateElevationQuery(points, 0)).not.toThrow();
+      expect(() => validateElevationQuery(points, 8)).toThrow(
+        `Points span ${MAX_ELEVATION_TILES + 1} tiles at zoom 8, more than the ${MAX_ELEVATION_TILES} allowed; use a lower zoom`
+      );
+    });
+  });
+});
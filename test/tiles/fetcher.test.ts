@@ -42,11 +42,40 @@ function createTerrariumPixels(
   return data;
 }
 
+/**
+ * Creates mock RGBA pixel data with MapBox terrain-rgb encoded elevation.
+ * MapBox formula: elevation = (R*256² + G*256 + B) / 10 - 10000
+ */
+function createMapboxPixels(
+  width: number,
+  height: number,
+  elevation: number
+): Uint8Array {
+  const value = Math.round((elevation + 10000) * 10);
+
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data[i * 4] = (value >> 16) & 0xff;
+    data[i * 4 + 1] = (value >> 8) & 0xff;
+    data[i * 4 + 2] = value & 0xff;
+    data[i * 4 + 3] = 255;
+  }
+  return data;
+}
+
 /**
  * Creates a mock PhotonImage instance
  */
-function createMockPhotonImage(width: number, height: number, elevation: number) {
-  const pixels = createTerrariumPixels(width, height, elevation);
+function createMockPhotonImage(
+  width: number,
+  height: number,
+  elevation: number,
+  encoding: 'terrarium' | 'mapbox' = 'terrarium'
+) {
+  const pixels =
+    encoding === 'mapbox'
+      ? createMapboxPixels(width, height, elevation)
+      : createTerrariumPixels(width, height, elevation);
   return {
     get_raw_pixels: vi.fn(() => pixels),
     get_width: vi.fn(() => width),
@@ -89,25 +118,45 @@ describe('TileFetcher', () => {
         result.grid.reduce((sum, val) => sum + val, 0) / result.grid.length;
       expect(avgElevation).toBeCloseTo(1000, 0);
 
-      expect(global.fetch).toHaveBeenCalledWith('https://example.com/10/512/512.webp');
+      expect(global.fetch).toHaveBeenCalledWith('https://example.com/10/512/512.webp', {
+        signal: expect.any(AbortSignal),
+      });
       expect(mockImage.free).toHaveBeenCalled();
     });
 
-    it('should throw on failed fetch', async () => {
+    it('should return NoData for a missing tile', async () => {
       global.fetch = vi.fn().mockResolvedValue({
         ok: false,
         status: 404,
       });
 
       const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp');
+      const result = await fetcher.fetchTile({ z: 10, x: 512, y: 512 }, 0);
+
+      expect(result.grid.every(Number.isNaN)).toBe(true);
+      expect(result.noData?.every((value) => value === 1)).toBe(true);
+      // Missing tiles are not retried
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw when the upstream fails', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 503,
+      });
+
+      const fetcher = new TileFetcher('https://failing.example.com/{z}/{x}/{y}.webp', 512, {
+        upstream: { retries: 1, retryDelayMs: 1 },
+      });
       await expect(fetcher.fetchTile({ z: 10, x: 512, y: 512 }, 0)).rejects.toThrow(
-        'Failed to fetch tile 10/512/512'
+        'Upstream responded 503 for https://failing.example.com/10/512/512.webp'
       );
+      expect(global.fetch).toHaveBeenCalledTimes(2);
     });
   });
 
   describe('fetchTile with buffer', () => {
-    it('should fetch 2x2 tile neighborhood for buffered grids', async () => {
+    it('should fetch 3x3 tile neighborhood for buffered grids', async () => {
       const mockImage = createMockPhotonImage(512, 512, 500);
       vi.mocked(PhotonImage.new_from_byteslice).mockReturnValue(mockImage as any);
 
@@ -125,21 +174,22 @@ describe('TileFetcher', () => {
       expect(result.bufferPx).toBe(4);
       expect(result.grid.length).toBe(264 * 264);
 
-      // Should fetch 4 tiles (2x2 corner-aligned neighborhood)
-      expect(global.fetch).toHaveBeenCalledTimes(4);
+      // Buffer reaches into all 8 neighbors
+      expect(global.fetch).toHaveBeenCalledTimes(9);
     });
 
-    it('should throw if center tile fails', async () => {
-      // All fetches fail
+    it('should return NoData if no tile exists', async () => {
+      // All tiles are missing
       global.fetch = vi.fn().mockResolvedValue({
         ok: false,
         status: 404,
       });
 
       const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp');
-      await expect(fetcher.fetchTile({ z: 10, x: 512, y: 512 }, 4)).rejects.toThrow(
-        'Failed to fetch center tile 10/512/512'
-      );
+      const result = await fetcher.fetchTile({ z: 10, x: 512, y: 512 }, 4);
+
+      expect(result.width).toBe(264);
+      expect(result.noData?.every((value) => value === 1)).toBe(true);
     });
 
     it('should handle missing edge tiles gracefully', async () => {
@@ -154,15 +204,69 @@ describe('TileFetcher', () => {
             arrayBuffer: () => Promise.resolve(new ArrayBuffer(100)),
           });
         }
-        return Promise.resolve({ ok: false });
+        return Promise.resolve({ ok: false, status: 404 });
       });
 
       const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', 512);
       const result = await fetcher.fetchTile({ z: 10, x: 512, y: 512 }, 4);
 
-      // Should still return a result (edge tiles filled with default/missing)
+      // Should still return a result, with the buffer from missing tiles marked NoData
       expect(result.width).toBe(264);
       expect(result.height).toBe(264);
+      expect(result.noData).toBeDefined();
+      for (let y = 0; y < result.height; y++) {
+        for (let x = 0; x < result.width; x++) {
+          const i = y * result.width + x;
+          const inTile = x >= 4 && x < 260 && y >= 4 && y < 260;
+          expect(result.noData![i], `${x},${y}`).toBe(inTile ? 0 : 1);
+          if (inTile) {
+            expect(result.grid[i]).toBeCloseTo(750, 0);
+          } else {
+            expect(result.grid[i]).toBeNaN();
+          }
+        }
+      }
+    });
+
+    it('should mark NoData sentinel pixels', async () => {
+      const pixels = createTerrariumPixels(512, 512, 750);
+      // Black source pixel (1, 1), sampled by output pixel (0, 0)
+      const i = (1 * 512 + 1) * 4;
+      pixels.fill(0, i, i + 3);
+      vi.mocked(PhotonImage.new_from_byteslice).mockReturnValue({
+        get_raw_pixels: () => pixels,
+        get_width: () => 512,
+        get_height: () => 512,
+        free: () => {},
+      } as unknown as PhotonImage);
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        arrayBuffer: () => Promise.resolve(new ArrayBuffer(100)),
+      });
+
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', 512);
+      const result = await fetcher.fetchTile({ z: 10, x: 512, y: 512 }, 0);
+
+      expect(result.grid[0]).toBeNaN();
+      expect(result.noData![0]).toBe(1);
+      expect(result.noData![1]).toBe(0);
+      expect(result.grid[1]).toBeCloseTo(750, 0);
+    });
+
+    it('should omit the NoData mask when every pixel has a value', async () => {
+      const mockImage = createMockPhotonImage(512, 512, 750);
+      vi.mocked(PhotonImage.new_from_byteslice).mockReturnValue(mockImage as unknown as PhotonImage);
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        arrayBuffer: () => Promise.resolve(new ArrayBuffer(100)),
+      });
+
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', 512);
+      const result = await fetcher.fetchTile({ z: 10, x: 512, y: 512 }, 4);
+
+      expect(result.noData).toBeUndefined();
     });
   });
 
@@ -180,7 +284,8 @@ describe('TileFetcher', () => {
       await fetcher.fetchTile({ z: 14, x: 8192, y: 5461 }, 0);
 
       expect(global.fetch).toHaveBeenCalledWith(
-        'https://tiles.example.com/dem/14/8192/5461@2x.webp'
+        'https://tiles.example.com/dem/14/8192/5461@2x.webp',
+        { signal: expect.any(AbortSignal) }
       );
     });
   });
@@ -223,6 +328,45 @@ describe('TileFetcher', () => {
       expect(result.width).toBe(264);
       expect(result.height).toBe(264);
     });
+
+    it('should wrap columns around the antimeridian', async () => {
+      const mockImage = createMockPhotonImage(512, 512, 100);
+      vi.mocked(PhotonImage.new_from_byteslice).mockReturnValue(mockImage as unknown as PhotonImage);
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        arrayBuffer: () => Promise.resolve(new ArrayBuffer(100)),
+      });
+
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', 512);
+      const west = await fetcher.fetchTile({ z: 10, x: 0, y: 512 }, 4);
+      const east = await fetcher.fetchTile({ z: 10, x: 1023, y: 512 }, 4);
+
+      expect(west.noData).toBeUndefined();
+      expect(east.noData).toBeUndefined();
+      const urls = vi.mocked(global.fetch).mock.calls.map(([url]) => url);
+      expect(urls).toContain('https://example.com/10/1023/512.webp');
+      expect(urls).toContain('https://example.com/10/0/512.webp');
+      expect(urls.some((url) => /\/(-1|1024)\//.test(String(url)))).toBe(false);
+    });
+
+    it('should mark rows beyond the poles as NoData', async () => {
+      const mockImage = createMockPhotonImage(512, 512, 100);
+      vi.mocked(PhotonImage.new_from_byteslice).mockReturnValue(mockImage as unknown as PhotonImage);
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        arrayBuffer: () => Promise.resolve(new ArrayBuffer(100)),
+      });
+
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', 512);
+      const result = await fetcher.fetchTile({ z: 10, x: 512, y: 0 }, 4);
+
+      // The top buffer rows lie north of the tile grid, the rest has data
+      expect(result.noData?.[0]).toBe(1);
+      expect(result.noData?.[4 * result.width]).toBe(0);
+      expect(global.fetch).toHaveBeenCalledTimes(6);
+    });
   });
 
   describe('elevation sampling', () => {
@@ -263,4 +407,193 @@ describe('TileFetcher', () => {
       expect(avgElevation).toBeCloseTo(elevation, 0);
     });
   });
+
+  describe('source encodings', () => {
+    it.each(['terrarium', 'mapbox'] as const)(
+      'should decode %s tiles with buffer',
+      async (encoding) => {
+        const mockImage = createMockPhotonImage(512, 512, 1234.5, encoding);
+        vi.mocked(PhotonImage.new_from_byteslice).mockReturnValue(mockImage as unknown as PhotonImage);
+
+        global.fetch = vi.fn().mockResolvedValue({
+          ok: true,
+          arrayBuffer: () => Promise.resolve(new ArrayBuffer(100)),
+        });
+
+        const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', 512, { encoding });
+        const result = await fetcher.fetchTile({ z: 10, x: 512, y: 512 }, 8);
+
+        for (const value of result.grid) {
+          expect(value).toBeCloseTo(1234.5, 1);
+        }
+      }
+    );
+
+    it.each(['terrarium', 'mapbox'] as const)(
+      'should decode %s source tiles at native resolution',
+      async (encoding) => {
+        const mockImage = createMockPhotonImage(512, 512, -42, encoding);
+        vi.mocked(PhotonImage.new_from_byteslice).mockReturnValue(mockImage as unknown as PhotonImage);
+
+        global.fetch = vi.fn().mockResolvedValue({
+          ok: true,
+          arrayBuffer: () => Promise.resolve(new ArrayBuffer(100)),
+        });
+
+        const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', 512, { encoding });
+        const result = await fetcher.fetchSourceTile({ z: 10, x: 512, y: 512 });
+
+        expect(result.width).toBe(512);
+        expect(result.height).toBe(512);
+        expect(result.data[0]).toBeCloseTo(-42, 1);
+      }
+    );
+
+    it('should default to Terrarium', async () => {
+      const mockImage = createMockPhotonImage(512, 512, 500, 'terrarium');
+      vi.mocked(PhotonImage.new_from_byteslice).mockReturnValue(mockImage as unknown as PhotonImage);
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        arrayBuffer: () => Promise.resolve(new ArrayBuffer(100)),
+      });
+
+      const terrarium = await new TileFetcher('https://example.com/{z}/{x}/{y}.webp').fetchSourceTile({
+        z: 10,
+        x: 512,
+        y: 512,
+      });
+      const mapbox = await new TileFetcher('https://example.com/{z}/{x}/{y}.webp', 512, {
+        encoding: 'mapbox',
+      }).fetchSourceTile({ z: 10, x: 512, y: 512 });
+
+      expect(terrarium.data[0]).toBeCloseTo(500, 1);
+      expect(mapbox.data[0]).not.toBeCloseTo(500, 1);
+    });
+  });
+
+  describe('decoded tile cache', () => {
+    function mockTiles() {
+      const mockImage = createMockPhotonImage(512, 512, 500);
+      vi.mocked(PhotonImage.new_from_byteslice).mockReturnValue(mockImage as unknown as PhotonImage);
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        arrayBuffer: () => Promise.resolve(new ArrayBuffer(100)),
+      });
+    }
+
+    it('decodes tiles shared by adjacent requests once', async () => {
+      mockTiles();
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', 512);
+
+      // Each buffered tile reads its 3×3 neighborhood; the two share 6 tiles
+      await fetcher.fetchTile({ z: 10, x: 512, y: 512 }, 8);
+      await fetcher.fetchTile({ z: 10, x: 513, y: 512 }, 8);
+
+      expect(global.fetch).toHaveBeenCalledTimes(12);
+      expect(PhotonImage.new_from_byteslice).toHaveBeenCalledTimes(12);
+      expect(fetcher.getCacheStats()).toEqual({
+        hits: 6,
+        misses: 12,
+        entries: 12,
+        bytes: 12 * 512 * 512 * 4,
+        maxBytes: 32 * 1024 * 1024,
+      });
+    });
+
+    it('evicts the least recently used tiles beyond its budget', async () => {
+      mockTiles();
+      const tileBytes = 512 * 512 * 4;
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', 512, {
+        cacheBytes: 2 * tileBytes,
+      });
+
+      await fetcher.fetchSourceTile({ z: 10, x: 1, y: 1 });
+      await fetcher.fetchSourceTile({ z: 10, x: 2, y: 1 });
+      await fetcher.fetchSourceTile({ z: 10, x: 1, y: 1 });
+      await fetcher.fetchSourceTile({ z: 10, x: 3, y: 1 });
+      await fetcher.fetchSourceTile({ z: 10, x: 2, y: 1 });
+
+      // 2/1 was evicted by 3/1 as the least recently used tile
+      expect(global.fetch).toHaveBeenCalledTimes(4);
+      expect(fetcher.getCacheStats()).toMatchObject({ hits: 1, misses: 4, entries: 2, bytes: 2 * tileBytes });
+    });
+
+    it('does not cache missing tiles', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 404 });
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', 512);
+
+      const tile = await fetcher.fetchSourceTile({ z: 10, x: 1, y: 1 });
+      await fetcher.fetchSourceTile({ z: 10, x: 1, y: 1 });
+
+      expect(tile.width).toBe(512);
+      expect(tile.noData?.every((value) => value === 1)).toBe(true);
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(fetcher.getCacheStats().entries).toBe(0);
+    });
+
+    it('can be disabled', async () => {
+      mockTiles();
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', 512, { cacheBytes: 0 });
+
+      await fetcher.fetchSourceTile({ z: 10, x: 1, y: 1 });
+      await fetcher.fetchSourceTile({ z: 10, x: 1, y: 1 });
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('request coalescing', () => {
+    it('shares one fetch between concurrent requests for a tile', async () => {
+      const mockImage = createMockPhotonImage(512, 512, 500);
+      vi.mocked(PhotonImage.new_from_byteslice).mockReturnValue(mockImage as unknown as PhotonImage);
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        arrayBuffer: () => Promise.resolve(new ArrayBuffer(100)),
+      });
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', 512, { cacheBytes: 0 });
+
+      // A 2×2 block of buffered tiles reads a 4×4 block of source tiles
+      await Promise.all([
+        fetcher.fetchTile({ z: 10, x: 512, y: 512 }, 8),
+        fetcher.fetchTile({ z: 10, x: 513, y: 512 }, 8),
+        fetcher.fetchTile({ z: 10, x: 512, y: 513 }, 8),
+        fetcher.fetchTile({ z: 10, x: 513, y: 513 }, 8),
+      ]);
+
+      expect(global.fetch).toHaveBeenCalledTimes(16);
+      expect(PhotonImage.new_from_byteslice).toHaveBeenCalledTimes(16);
+      const urls = vi.mocked(global.fetch).mock.calls.map(([url]) => url);
+      expect(new Set(urls).size).toBe(16);
+    });
+
+    it('propagates errors to every waiting request and retries afterwards', async () => {
+      global.fetch = vi.fn().mockRejectedValueOnce(new Error('Network error'));
+      const fetcher = new TileFetcher('https://example.com/{z}/{x}/{y}.webp', 512, {
+        upstream: { retries: 0 },
+      });
+
+      const results = await Promise.allSettled([
+        fetcher.fetchSourceTile({ z: 10, x: 1, y: 1 }),
+        fetcher.fetchSourceTile({ z: 10, x: 1, y: 1 }),
+      ]);
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+
+      // The failed request is not kept, so the next call fetches again
+      const mockImage = createMockPhotonImage(512, 512, 500);
+      vi.mocked(PhotonImage.new_from_byteslice).mockReturnValue(mockImage as unknown as PhotonImage);
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: true,
+        arrayBuffer: () => Promise.resolve(new ArrayBuffer(100)),
+      } as Response);
+
+      const tile = await fetcher.fetchSourceTile({ z: 10, x: 1, y: 1 });
+
+      expect(tile.data[0]).toBeCloseTo(500, 0);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+  });
 });
@@ -0,0 +1,74 @@
+/**
+ * LruCache Tests
+ *
+ * Tests for the size-bounded least-recently-used cache.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LruCache } from '../../src/lib/tiles/lru-cache';
+
+describe('LruCache', () => {
+  it('returns cached values and counts hits and misses', () => {
+    const cache = new LruCache<string>(100);
+
+    cache.set('a', 'alpha', 10);
+
+    expect(cache.get('a')).toBe('alpha');
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 1, entries: 1, bytes: 10, maxBytes: 100 });
+  });
+
+  it('evicts the least recently used entries beyond its size', () => {
+    const cache = new LruCache<string>(30);
+
+    cache.set('a', 'alpha', 10);
+    cache.set('b', 'beta', 10);
+    cache.set('c', 'gamma', 10);
+    cache.get('a');
+    cache.set('d', 'delta', 20);
+
+    expect(cache.get('a')).toBe('alpha');
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBeUndefined();
+    expect(cache.get('d')).toBe('delta');
+    expect(cache.getStats().bytes).toBe(30);
+  });
+
+  it('replaces entries under the same key', () => {
+    const cache = new LruCache<string>(100);
+
+    cache.set('a', 'alpha', 10);
+    cache.set('a', 'aleph', 20);
+
+    expect(cache.get('a')).toBe('aleph');
+    expect(cache.getStats()).toMatchObject({ entries: 1, bytes: 20 });
+  });
+
+  it('does not cache values larger than its size', () => {
+    const cache = new LruCache<string>(30);
+
+    cache.set('a', 'alpha', 10);
+    cache.set('b', 'beta', 40);
+
+    expect(cache.get('a')).toBe('alpha');
+    expect(cache.get('b')).toBeUndefined();
+  });
+
+  it('deletes entries', () => {
+    const cache = new LruCache<string>(100);
+
+    cache.set('a', 'alpha', 10);
+    cache.delete('a');
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ entries: 0, bytes: 0 });
+  });
+
+  it('caches nothing with a size of 0', () => {
+    const cache = new LruCache<string>(0);
+
+    cache.set('a', 'alpha', 1);
+
+    expect(cache.get('a')).toBeUndefined();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * MbtilesStore Tests
+ *
+ * Tests for reading DEM tiles out of MBTiles files, built in memory with
+ * sql.js, and for fetching elevation grids from them through TileFetcher.
+ */
+
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import initSqlJs, { type SqlJsStatic } from 'sql.js';
+import { MbtilesStore } from '../../src/lib/tiles/mbtiles-store';
+import { TileFetcher } from '../../src/lib/tiles/fetcher';
+
+// Mock @cf-wasm/photon
+vi.mock('@cf-wasm/photon', () => ({
+  PhotonImage: {
+    new_from_byteslice: vi.fn(),
+  },
+}));
+
+import { PhotonImage } from '@cf-wasm/photon';
+
+let SQL: SqlJsStatic;
+
+beforeAll(async () => {
+  SQL = await initSqlJs();
+});
+
+/**
+ * Builds an MBTiles file. Tiles are given in XYZ rows and stored in TMS rows.
+ */
+function createMbtiles(
+  tiles: { z: number; x: number; y: number; data: Uint8Array }[],
+  format = 'webp'
+): Uint8Array {
+  const database = new SQL.Database();
+  database.run('CREATE TABLE metadata (name TEXT, value TEXT)');
+  database.run(
+    'CREATE TABLE tiles (zoom_level INTEGER, tile_column INTEGER, tile_row INTEGER, tile_data BLOB)'
+  );
+  database.run('INSERT INTO metadata VALUES (?, ?), (?, ?)', ['name', 'terrain', 'format', format]);
+  for (const { z, x, y, data } of tiles) {
+    database.run('INSERT INTO tiles VALUES (?, ?, ?, ?)', [z, x, Math.pow(2, z) - 1 - y, data]);
+  }
+
+  const file = database.export();
+  database.close();
+  return file;
+}
+
+describe('MbtilesStore', () => {
+  it('reads tiles by XYZ coordinates', async () => {
+    const store = new MbtilesStore(
+      createMbtiles([
+        { z: 2, x: 1, y: 0, data: Uint8Array.from([1, 2]) },
+        { z: 2, x: 1, y: 3, data: Uint8Array.from([3]) },
+      ])
+    );
+
+    expect(new Uint8Array((await store.getTile(2, 1, 0))!)).toEqual(Uint8Array.from([1, 2]));
+    expect(new Uint8Array((await store.getTile(2, 1, 3))!)).toEqual(Uint8Array.from([3]));
+    expect(await store.getTile(2, 1, 1)).toBeNull();
+    await store.close();
+  });
+
+  it('flips rows to the TMS scheme', async () => {
+    const database = new SQL.Database(createMbtiles([]));
+    database.run('INSERT INTO tiles VALUES (3, 5, 0, ?)', [Uint8Array.from([9])]);
+    const store = new MbtilesStore(database.export());
+    database.close();
+
+    // TMS row 0 is the southernmost row, XYZ row 7 at zoom 3
+    expect(new Uint8Array((await store.getTile(3, 5, 7))!)).toEqual(Uint8Array.from([9]));
+    expect(await store.getTile(3, 5, 0)).toBeNull();
+  });
+
+  it('reads metadata', async () => {
+    const store = new MbtilesStore(createMbtiles([], 'png'));
+
+    expect(await store.getMetadata()).toEqual({ name: 'terrain', format: 'png' });
+  });
+
+  it('rejects files of vector tiles', async () => {
+    const store = new MbtilesStore(createMbtiles([], 'pbf'));
+
+    await expect(store.getTile(0, 0, 0)).rejects.toThrow(
+      'Unsupported MBTiles format pbf; DEM tiles must be PNG or WebP'
+    );
+  });
+});
+
+describe('TileFetcher with an MbtilesStore', () => {
+  it('decodes elevation tiles from the file', async () => {
+    const SOURCE_TILE_SIZE = 4;
+    // Decodes a tile to a constant Terrarium elevation of its first byte * 100
+    vi.mocked(PhotonImage.new_from_byteslice).mockImplementation((bytes: Uint8Array) => {
+      const elevation = bytes[0] * 100 + 32768;
+      const data = new Uint8Array(SOURCE_TILE_SIZE * SOURCE_TILE_SIZE * 4);
+      for (let i = 0; i < data.length; i += 4) {
+        data[i] = Math.floor(elevation / 256);
+        data[i + 1] = elevation % 256;
+        data[i + 3] = 255;
+      }
+      return {
+        get_raw_pixels: () => data,
+        get_width: () => SOURCE_TILE_SIZE,
+        get_height: () => SOURCE_TILE_SIZE,
+        free: vi.fn(),
+      } as unknown as PhotonImage;
+    });
+
+    const store = new MbtilesStore(
+      createMbtiles([
+        { z: 1, x: 0, y: 0, data: Uint8Array.from([7]) },
+        { z: 1, x: 0, y: 1, data: Uint8Array.from([9]) },
+      ])
+    );
+    const fetcher = new TileFetcher(store, SOURCE_TILE_SIZE);
+    const tile = await fetcher.fetchTile({ z: 1, x: 0, y: 0 }, 2);
+
+    // The bottom buffer comes from the southern neighbor
+    expect(tile.grid[2 * tile.width + 2]).toBe(700);
+    expect(tile.grid[(tile.height - 1) * tile.width + 2]).toBe(900);
+    expect(tile.noData).toBeDefined();
+  });
+});
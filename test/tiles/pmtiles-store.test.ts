@@ -0,0 +1,234 @@
+/**
+ * PmtilesStore Tests
+ *
+ * Tests for reading DEM tiles out of PMTiles v3 archives, built in memory,
+ * and for fetching elevation grids from them through TileFetcher.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { zxyToTileId, TileType, type Source } from 'pmtiles';
+import { PmtilesStore } from '../../src/lib/tiles/pmtiles-store';
+import { TileFetcher } from '../../src/lib/tiles/fetcher';
+import { UpstreamError } from '../../src/lib/tiles/upstream';
+
+// Mock @cf-wasm/photon
+vi.mock('@cf-wasm/photon', () => ({
+  PhotonImage: {
+    new_from_byteslice: vi.fn(),
+  },
+}));
+
+import { PhotonImage } from '@cf-wasm/photon';
+
+const HEADER_LENGTH = 127;
+
+interface ArchiveTile {
+  z: number;
+  x: number;
+  y: number;
+  data: Uint8Array;
+}
+
+function writeVarint(bytes: number[], value: number): void {
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+}
+
+/**
+ * Builds an uncompressed PMTiles v3 archive with a single root directory.
+ */
+function createArchive(tiles: ArchiveTile[], tileType: TileType = TileType.Webp): ArrayBuffer {
+  const entries = tiles
+    .map((tile) => ({ ...tile, tileId: zxyToTileId(tile.z, tile.x, tile.y) }))
+    .sort((a, b) => a.tileId - b.tileId);
+
+  const directory: number[] = [];
+  writeVarint(directory, entries.length);
+  let lastId = 0;
+  for (const entry of entries) {
+    writeVarint(directory, entry.tileId - lastId);
+    lastId = entry.tileId;
+  }
+  for (let i = 0; i < entries.length; i++) writeVarint(directory, 1);
+  for (const entry of entries) writeVarint(directory, entry.data.length);
+  // Contiguous tiles: offset 0 means "right after the previous tile"
+  for (let i = 0; i < entries.length; i++) writeVarint(directory, i === 0 ? 1 : 0);
+
+  const tileDataOffset = HEADER_LENGTH + directory.length;
+  const tileDataLength = entries.reduce((sum, entry) => sum + entry.data.length, 0);
+  const buffer = new ArrayBuffer(tileDataOffset + tileDataLength);
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  bytes.set(new TextEncoder().encode('PMTiles'), 0);
+  view.setUint8(7, 3);
+  view.setBigUint64(8, BigInt(HEADER_LENGTH), true);
+  view.setBigUint64(16, BigInt(directory.length), true);
+  view.setBigUint64(24, BigInt(tileDataOffset), true);
+  view.setBigUint64(56, BigInt(tileDataOffset), true);
+  view.setBigUint64(64, BigInt(tileDataLength), true);
+  view.setBigUint64(72, BigInt(entries.length), true);
+  view.setBigUint64(80, BigInt(entries.length), true);
+  view.setBigUint64(88, BigInt(entries.length), true);
+  view.setUint8(96, 1); // clustered
+  view.setUint8(97, 1); // internal compression: none
+  view.setUint8(98, 1); // tile compression: none
+  view.setUint8(99, tileType);
+  view.setUint8(100, Math.min(...entries.map((entry) => entry.z)));
+  view.setUint8(101, Math.max(...entries.map((entry) => entry.z)));
+
+  bytes.set(directory, HEADER_LENGTH);
+  let offset = tileDataOffset;
+  for (const entry of entries) {
+    bytes.set(entry.data, offset);
+    offset += entry.data.length;
+  }
+  return buffer;
+}
+
+describe('PmtilesStore', () => {
+  const archive = createArchive([
+    { z: 0, x: 0, y: 0, data: Uint8Array.from([1, 2, 3]) },
+    { z: 1, x: 1, y: 0, data: Uint8Array.from([4, 5]) },
+    { z: 1, x: 0, y: 1, data: Uint8Array.from([6]) },
+  ]);
+
+  it('reads tiles by z/x/y', async () => {
+    const store = new PmtilesStore(archive);
+
+    expect(new Uint8Array((await store.getTile(0, 0, 0))!)).toEqual(Uint8Array.from([1, 2, 3]));
+    expect(new Uint8Array((await store.getTile(1, 1, 0))!)).toEqual(Uint8Array.from([4, 5]));
+    expect(new Uint8Array((await store.getTile(1, 0, 1))!)).toEqual(Uint8Array.from([6]));
+  });
+
+  it('returns null for tiles not in the archive', async () => {
+    const store = new PmtilesStore(archive);
+
+    expect(await store.getTile(1, 0, 0)).toBeNull();
+    expect(await store.getTile(2, 0, 0)).toBeNull();
+  });
+
+  it('reads byte ranges from a custom source', async () => {
+    const getBytes = vi.fn(async (offset: number, length: number) => ({
+      data: archive.slice(offset, offset + length),
+    }));
+    const source: Source = { getKey: () => 'custom', getBytes };
+    const store = new PmtilesStore(source);
+
+    await store.getTile(1, 1, 0);
+    await store.getTile(1, 0, 1);
+
+    // Header and root directory once, then one range per tile
+    expect(getBytes).toHaveBeenCalledTimes(3);
+    expect(getBytes.mock.lastCall?.[1]).toBe(1);
+  });
+
+  describe('remote archives', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    /** A fetch serving byte ranges of the archive */
+    function serveRanges(_url: unknown, init?: RequestInit): Promise<Response> {
+      const [, start, end] = /^bytes=(\d+)-(\d+)$/.exec(
+        (init?.headers as Record<string, string>).Range
+      )!;
+      const data = archive.slice(Number(start), Number(end) + 1);
+      return Promise.resolve({
+        ok: true,
+        status: 206,
+        arrayBuffer: () => Promise.resolve(data),
+      } as Response);
+    }
+
+    it('reads tiles with range requests', async () => {
+      global.fetch = vi.fn(serveRanges);
+      const store = new PmtilesStore('https://ranges.example.com/dem.pmtiles');
+
+      expect(new Uint8Array((await store.getTile(1, 1, 0))!)).toEqual(Uint8Array.from([4, 5]));
+      // The tile is stored last in the archive
+      expect(vi.mocked(global.fetch).mock.lastCall?.[1]?.headers).toEqual({
+        Range: `bytes=${archive.byteLength - 2}-${archive.byteLength - 1}`,
+      });
+    });
+
+    it('throws an UpstreamError when the archive host fails', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 503 } as Response);
+      const store = new PmtilesStore('https://down.example.com/dem.pmtiles', { retries: 0 });
+
+      const error = await store.getTile(0, 0, 0).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(UpstreamError);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects missing archives', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 404 } as Response);
+      const store = new PmtilesStore('https://missing.example.com/dem.pmtiles');
+
+      await expect(store.getTile(0, 0, 0)).rejects.toThrow(
+        'PMTiles archive https://missing.example.com/dem.pmtiles not found'
+      );
+    });
+  });
+
+  it('rejects archives of vector tiles', async () => {
+    const store = new PmtilesStore(
+      createArchive([{ z: 0, x: 0, y: 0, data: Uint8Array.from([1]) }], TileType.Mvt)
+    );
+
+    await expect(store.getTile(0, 0, 0)).rejects.toThrow(
+      'Unsupported PMTiles tile type Mvt; DEM tiles must be PNG or WebP'
+    );
+  });
+});
+
+describe('TileFetcher with a PmtilesStore', () => {
+  const SOURCE_TILE_SIZE = 4;
+
+  beforeEach(() => {
+    // Decodes a tile to a constant Terrarium elevation of its first byte * 100
+    vi.mocked(PhotonImage.new_from_byteslice).mockImplementation((bytes: Uint8Array) => {
+      const elevation = bytes[0] * 100 + 32768;
+      const data = new Uint8Array(SOURCE_TILE_SIZE * SOURCE_TILE_SIZE * 4);
+      for (let i = 0; i < data.length; i += 4) {
+        data[i] = Math.floor(elevation / 256);
+        data[i + 1] = elevation % 256;
+        data[i + 3] = 255;
+      }
+      return {
+        get_raw_pixels: () => data,
+        get_width: () => SOURCE_TILE_SIZE,
+        get_height: () => SOURCE_TILE_SIZE,
+        free: vi.fn(),
+      } as unknown as PhotonImage;
+    });
+  });
+
+  it('decodes elevation tiles from the archive', async () => {
+    const store = new PmtilesStore(
+      createArchive([
+        { z: 1, x: 0, y: 0, data: Uint8Array.from([7]) },
+        { z: 1, x: 1, y: 0, data: Uint8Array.from([9]) },
+      ])
+    );
+    const fetcher = new TileFetcher(store, SOURCE_TILE_SIZE);
+
+    const grid = await fetcher.fetchSourceTile({ z: 1, x: 1, y: 0 });
+    const tile = await fetcher.fetchTile({ z: 1, x: 0, y: 0 }, 2);
+
+    expect(grid.data.every((value) => value === 900)).toBe(true);
+    // The side buffers come from the other tile, across the antimeridian on
+    // the left; the top buffer lies beyond the pole
+    const row = 2 * tile.width;
+    expect(tile.grid[row + 2]).toBe(700);
+    expect(tile.grid[row + tile.width - 1]).toBe(900);
+    expect(tile.grid[row]).toBe(900);
+    expect(Number.isNaN(tile.grid[0])).toBe(true);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeProfile,
+  densifyLine,
+  countProfileSamples,
+  computeProfileStats,
+} from '../../src/lib/tiles/profile';
+import type { TileCoord } from '../../src/lib/tiles/types';
+import type { Grid } from '../../src/lib/dem';
+
+/** Meters per degree of latitude on the mean Earth sphere */
+const METERS_PER_DEGREE = (6371008.8 * Math.PI) / 180;
+
+describe('profile', () => {
+  describe('densifyLine', () => {
+    it('should keep both ends and cap the spacing', () => {
+      const points = densifyLine([[0, 0], [0, 0.01]], 100);
+      const length = 0.01 * METERS_PER_DEGREE;
+
+      expect(points).toHaveLength(Math.ceil(length / 100) + 1);
+      expect(points[0]).toEqual({ lon: 0, lat: 0, distance: 0 });
+      expect(points[points.length - 1].lat).toBeCloseTo(0.01, 10);
+      expect(points[points.length - 1].distance).toBeCloseTo(length, 6);
+
+      for (let i = 1; i < points.length; i++) {
+        expect(points[i].distance - points[i - 1].distance).toBeLessThanOrEqual(100);
+      }
+    });
+
+    it('should keep every vertex', () => {
+      const points = densifyLine([[0, 0], [0, 0.001], [0.001, 0.001]], 1000);
+
+      expect(points.map((point) => [point.lon, point.lat])).toEqual([
+        [0, 0],
+        [0, 0.001],
+        [0.001, 0.001],
+      ]);
+    });
+
+    it('should agree with countProfileSamples', () => {
+      const line = [[7.4, 46.9], [7.45, 46.95], [7.5, 46.92]];
+
+      expect(countProfileSamples(line, 50)).toBe(densifyLine(line, 50).length);
+    });
+
+    it('should cross the antimeridian the short way', () => {
+      const line = [[179, 0], [-179, 0]];
+      const points = densifyLine(line, 10000);
+
+      expect(points).toHaveLength(countProfileSamples(line, 10000));
+      expect(points[points.length - 1]).toMatchObject({ lon: -179, lat: 0 });
+      expect(points[points.length - 1].distance).toBeCloseTo(2 * METERS_PER_DEGREE, 6);
+      for (const { lon } of points) {
+        expect(Math.abs(lon)).toBeGreaterThanOrEqual(179);
+        expect(Math.abs(lon)).toBeLessThanOrEqual(180);
+      }
+      for (let i = 1; i < points.length; i++) {
+        expect(points[i].distance - points[i - 1].distance).toBeLessThanOrEqual(10000);
+      }
+    });
+
+    it('should reject degenerate input', () => {
+      expect(() => densifyLine([[0, 0]], 10)).toThrow('Line must have at least 2 positions');
+      expect(() => densifyLine([[0, 0], [1, 1]], 0)).toThrow('Spacing must be positive');
+    });
+  });
+
+  describe('computeProfileStats', () => {
+    it('should sum ascent and descent separately', () => {
+      const stats = computeProfileStats([
+        [0, 100],
+        [100, 110],
+        [200, 105],
+        [300, 125],
+      ]);
+
+      expect(stats.distance).toBe(300);
+      expect(stats.ascent).toBe(30);
+      expect(stats.descent).toBe(5);
+      expect(stats.min).toBe(100);
+      expect(stats.max).toBe(125);
+      expect(stats.maxGradient).toBeCloseTo(20, 10);
+    });
+
+    it('should count downhill gradients', () => {
+      const stats = computeProfileStats([
+        [0, 100],
+        [50, 75],
+      ]);
+
+      expect(stats.maxGradient).toBeCloseTo(50, 10);
+    });
+
+    it('should leave NoData samples out', () => {
+      const stats = computeProfileStats([
+        [0, 100],
+        [100, NaN],
+        [200, 120],
+      ]);
+
+      expect(stats.distance).toBe(200);
+      expect(stats.ascent).toBe(20);
+      expect(stats.min).toBe(100);
+      expect(stats.max).toBe(120);
+      expect(stats.maxGradient).toBeCloseTo(10, 10);
+    });
+  });
+
+  describe('computeProfile', () => {
+    it('should sample every densified point and fetch each tile once', async () => {
+      const requested: TileCoord[] = [];
+      const fetcher = {
+        async fetchSourceTile(coord: TileCoord): Promise<Grid> {
+          requested.push(coord);
+          return { data: new Float64Array(16).fill(500), width: 4, height: 4 };
+        },
+      };
+
+      const { profile, stats } = await computeProfile(fetcher, [[7.44, 46.95], [7.46, 46.95]], 100, 12);
+
+      expect(profile.length).toBeGreaterThan(10);
+      expect(profile.every(([, elevation]) => elevation === 500)).toBe(true);
+      expect(new Set(requested.map((tile) => `${tile.x}/${tile.y}`)).size).toBe(requested.length);
+      expect(stats.ascent).toBe(0);
+      expect(stats.min).toBe(500);
+    });
+  });
+});
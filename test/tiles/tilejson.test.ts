@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { buildTileJson } from '../../src/lib/tiles/tilejson';
+import {
+  MIN_ZOOM,
+  MAX_ZOOM,
+  CONTOUR_LAYER,
+  HILLSHADE_LAYER,
+  SLOPE_LAYER,
+  ASPECT_LAYER,
+} from '../../src/lib/tiles/types';
+
+describe('buildTileJson', () => {
+  const tileUrl = 'https://example.com/tiles/terrain/{z}/{x}/{y}.mvt';
+
+  it('should describe the tile URL and zoom range', () => {
+    const tileJson = buildTileJson(tileUrl);
+
+    expect(tileJson.tilejson).toBe('3.0.0');
+    expect(tileJson.tiles).toEqual([tileUrl]);
+    expect(tileJson.minzoom).toBe(MIN_ZOOM);
+    expect(tileJson.maxzoom).toBe(MAX_ZOOM);
+  });
+
+  it('should cover the Web Mercator extent', () => {
+    const [west, south, east, north] = buildTileJson(tileUrl).bounds;
+
+    expect(west).toBe(-180);
+    expect(east).toBe(180);
+    expect(south).toBeCloseTo(-85.0511, 4);
+    expect(north).toBeCloseTo(85.0511, 4);
+  });
+
+  it('should list every layer in encoding order', () => {
+    const ids = buildTileJson(tileUrl).vector_layers.map((layer) => layer.id);
+
+    expect(ids).toEqual([HILLSHADE_LAYER, SLOPE_LAYER, ASPECT_LAYER, CONTOUR_LAYER]);
+  });
+
+  it('should describe the contour and hillshade fields', () => {
+    const layers = buildTileJson(tileUrl).vector_layers;
+    const contour = layers.find((layer) => layer.id === CONTOUR_LAYER);
+    const hillshade = layers.find((layer) => layer.id === HILLSHADE_LAYER);
+
+    expect(Object.keys(contour?.fields ?? {})).toEqual(['level', 'level_m', 'index']);
+    expect(Object.keys(hillshade?.fields ?? {})).toEqual(['level', 'shade']);
+  });
+});
@@ -1,7 +1,12 @@
 import { describe, it, expect } from 'vitest';
 import {
   getContourInterval,
+  getContourIntervalFeet,
+  toMeters,
+  fromMeters,
+  getMaxContourLevels,
   getHillshadeInterval,
+  bandsToHillshadeInterval,
   generateLevels,
   MVT_EXTENT,
   TILE_SIZE,
@@ -100,6 +105,44 @@ describe('types', () => {
     });
   });
 
+  describe('getContourIntervalFeet', () => {
+    it('should return 200ft at z12-13 and 40ft at z15+', () => {
+      expect(getContourIntervalFeet(12)).toBe(200);
+      expect(getContourIntervalFeet(13)).toBe(200);
+      expect(getContourIntervalFeet(15)).toBe(40);
+      expect(getContourIntervalFeet(22)).toBe(40);
+    });
+
+    it('should never be finer than the metric interval by more than 2x', () => {
+      for (let z = 0; z <= 22; z++) {
+        expect(toMeters(getContourIntervalFeet(z), 'ft')).toBeGreaterThan(getContourInterval(z) / 2);
+      }
+    });
+  });
+
+  describe('unit conversion', () => {
+    it('should convert feet to meters and back', () => {
+      expect(toMeters(1000, 'ft')).toBeCloseTo(304.8, 10);
+      expect(fromMeters(304.8, 'ft')).toBeCloseTo(1000, 10);
+    });
+
+    it('should leave meters unchanged', () => {
+      expect(toMeters(1234.5, 'm')).toBe(1234.5);
+      expect(fromMeters(1234.5, 'm')).toBe(1234.5);
+    });
+  });
+
+  describe('getMaxContourLevels', () => {
+    it('should allow 20m contours over the full range at z13', () => {
+      expect(getMaxContourLevels(13)).toBe(475);
+      expect((MAX_ELEVATION - MIN_ELEVATION) / 20).toBeLessThanOrEqual(getMaxContourLevels(13));
+    });
+
+    it('should allow more levels at higher zooms', () => {
+      expect(getMaxContourLevels(15)).toBeGreaterThan(getMaxContourLevels(10));
+    });
+  });
+
   describe('getHillshadeInterval', () => {
     it('should return 32 for z0-7 (8 bands)', () => {
       expect(getHillshadeInterval(0)).toBe(32);
@@ -120,6 +163,18 @@ describe('types', () => {
     });
   });
 
+  describe('bandsToHillshadeInterval', () => {
+    it('should match the zoom ladder for 8 and 16 bands', () => {
+      expect(bandsToHillshadeInterval(8)).toBe(getHillshadeInterval(0));
+      expect(bandsToHillshadeInterval(16)).toBe(getHillshadeInterval(12));
+    });
+
+    it('should round up so the band count is never exceeded', () => {
+      expect(bandsToHillshadeInterval(12)).toBe(22);
+      expect(Math.ceil(256 / bandsToHillshadeInterval(12))).toBeLessThanOrEqual(12);
+    });
+  });
+
   describe('generateLevels', () => {
     it('should generate levels from min to max (exclusive)', () => {
       const levels = generateLevels(0, 100, 25);
@@ -0,0 +1,153 @@
+/**
+ * Upstream Fetching Tests
+ *
+ * Tests for timeouts, retries and the per-host circuit breaker of upstream
+ * tile requests, using a mocked fetch. Each test uses its own host, as circuit
+ * breakers are shared across requests.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fetchUpstream, UpstreamError } from '../../src/lib/tiles/upstream';
+
+function respond(status: number): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)),
+  } as Response;
+}
+
+/** A fetch that never answers, rejecting when its request is aborted */
+function hang(_url: unknown, init?: { signal?: AbortSignal | null }): Promise<Response> {
+  return new Promise((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+  });
+}
+
+describe('fetchUpstream', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('returns the body of successful responses', async () => {
+    vi.mocked(global.fetch).mockResolvedValue(respond(200));
+
+    const body = await fetchUpstream('https://ok.example.com/1/0/0.png');
+
+    expect(body?.byteLength).toBe(8);
+  });
+
+  it('requests byte ranges', async () => {
+    vi.mocked(global.fetch).mockResolvedValue(respond(206));
+
+    await fetchUpstream('https://range.example.com/dem.pmtiles', {}, { offset: 127, length: 16 });
+
+    expect(vi.mocked(global.fetch).mock.lastCall?.[1]?.headers).toEqual({ Range: 'bytes=127-142' });
+  });
+
+  it('returns null for missing tiles without retrying', async () => {
+    vi.mocked(global.fetch).mockResolvedValue(respond(404));
+
+    expect(await fetchUpstream('https://missing.example.com/1/0/0.png')).toBeNull();
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns null for gone and empty resources', async () => {
+    vi.mocked(global.fetch).mockResolvedValueOnce(respond(410)).mockResolvedValueOnce(respond(204));
+
+    expect(await fetchUpstream('https://gone.example.com/1/0/0.png')).toBeNull();
+    expect(await fetchUpstream('https://gone.example.com/1/0/1.png')).toBeNull();
+  });
+
+  it('throws for refused requests without retrying', async () => {
+    vi.mocked(global.fetch).mockResolvedValue(respond(403));
+
+    await expect(fetchUpstream('https://forbidden.example.com/1/0/0.png')).rejects.toThrow(
+      new UpstreamError('Upstream responded 403 for https://forbidden.example.com/1/0/0.png', false, 403)
+    );
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries server and network errors', async () => {
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce(respond(503))
+      .mockRejectedValueOnce(new TypeError('Network connection lost'))
+      .mockResolvedValueOnce(respond(200));
+
+    const body = await fetchUpstream('https://flaky.example.com/1/0/0.png', { retryDelayMs: 1 });
+
+    expect(body).not.toBeNull();
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws once the retries are exhausted', async () => {
+    vi.mocked(global.fetch).mockResolvedValue(respond(502));
+
+    const request = fetchUpstream('https://down.example.com/1/0/0.png', {
+      retries: 2,
+      retryDelayMs: 1,
+    });
+
+    await expect(request).rejects.toThrow(
+      new UpstreamError('Upstream responded 502 for https://down.example.com/1/0/0.png', false, 502)
+    );
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('times out slow requests', async () => {
+    vi.mocked(global.fetch).mockImplementation(hang);
+
+    const error = await fetchUpstream('https://slow.example.com/1/0/0.png', {
+      timeoutMs: 10,
+      retries: 0,
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect((error as UpstreamError).timeout).toBe(true);
+  });
+
+  it('opens the circuit after repeated failures and closes it on success', async () => {
+    const url = 'https://breaker.example.com/1/0/0.png';
+    const options = { retries: 0, failureThreshold: 2, resetMs: 20 };
+    vi.mocked(global.fetch).mockResolvedValue(respond(500));
+
+    await expect(fetchUpstream(url, options)).rejects.toThrow('Upstream responded 500');
+    await expect(fetchUpstream(url, options)).rejects.toThrow('Upstream responded 500');
+    await expect(fetchUpstream(url, options)).rejects.toThrow(
+      'Upstream breaker.example.com is unavailable after repeated failures'
+    );
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+
+    // After the reset time a request passes again and its success closes the circuit
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    vi.mocked(global.fetch).mockResolvedValue(respond(200));
+
+    expect(await fetchUpstream(url, options)).not.toBeNull();
+    vi.mocked(global.fetch).mockResolvedValue(respond(500));
+    await expect(fetchUpstream(url, options)).rejects.toThrow('Upstream responded 500');
+    expect(global.fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('keeps the breaker settings of each caller of a host', async () => {
+    const url = 'https://shared.example.com/1/0/0.png';
+    vi.mocked(global.fetch).mockResolvedValue(respond(500));
+
+    await expect(fetchUpstream(url, { retries: 0, failureThreshold: 1 })).rejects.toThrow(
+      'Upstream responded 500'
+    );
+    await expect(fetchUpstream(url, { retries: 0, failureThreshold: 1 })).rejects.toThrow(
+      'is unavailable after repeated failures'
+    );
+    // A caller with a higher threshold still reaches the host
+    await expect(fetchUpstream(url, { retries: 0, failureThreshold: 3 })).rejects.toThrow(
+      'Upstream responded 500'
+    );
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -7,6 +7,11 @@ export default defineWorkersConfig({
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: "./wrangler.json" },
+				miniflare: {
+					// Local R2 emulation; source tiles are read from the bucket instead of Mapterhorn
+					r2Buckets: ["DEM_BUCKET", "TILE_CACHE_BUCKET"],
+					bindings: { DEM_BUCKET_KEY: "dem/{z}/{x}/{y}.png" },
+				},
 			},
 		},
 	},
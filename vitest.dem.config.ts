@@ -2,7 +2,7 @@ import { defineConfig } from "vitest/config";
 
 export default defineConfig({
 	test: {
-		include: ["test/dem/**/*.test.ts", "test/tiles/**/*.test.ts"],
+		include: ["test/dem/**/*.test.ts", "test/tiles/**/*.test.ts", "test/style/**/*.test.ts"],
 		coverage: {
 			provider: "v8",
 			reporter: ["text", "html", "json-summary"],
@@ -1,14 +1,23 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: 51a55e9b2408142060849839f2cee4ec)
+// Generated by Wrangler by running `wrangler types` (hash: 8a45ecca6ef86f62e2d27fc94761c6fe)
 // Runtime types generated with workerd@1.20260114.0 2025-10-08 nodejs_compat
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/worker/index");
 	}
 	interface Env {
+		CACHE_ENABLED: "true";
+		COMPRESSION_ENABLED: "false";
+		CACHE_VERSION: "v2";
 	}
 }
 interface Env extends Cloudflare.Env {}
+type StringifyValues<EnvType extends Record<string, unknown>> = {
+	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
+};
+declare namespace NodeJS {
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "CACHE_ENABLED" | "COMPRESSION_ENABLED" | "CACHE_VERSION">> {}
+}
 
 // Begin runtime types
 /*! *****************************************************************************